@@ -32,10 +32,19 @@ export class DynamicBufferAttribute<
     return this.array as T;
   }
 
-  resize(itemCount: number) {
+  /**
+   * Set the number of items, allocating a larger array when the capacity is
+   * exceeded. Returns true if a new array was allocated. WebGL buffers can't
+   * grow in place, so the owning geometry must then be disposed to upload the
+   * larger array into a new buffer.
+   */
+  resize(itemCount: number): boolean {
     this.count = itemCount;
-    if (itemCount <= this._itemCapacity) return;
+    if (itemCount <= this._itemCapacity) {
+      return false;
+    }
     this.array = new this._dataConstructor(itemCount * this.itemSize);
     this._itemCapacity = itemCount;
+    return true;
   }
 }
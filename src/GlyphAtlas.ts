@@ -0,0 +1,151 @@
+import * as THREE from "three";
+
+const FONT_SIZE = 48; // [px]
+const FONT_FAMILY = `"IBM Plex Sans", "Helvetica Neue", Arial, sans-serif`;
+const LINE_HEIGHT = Math.ceil(FONT_SIZE * 1.25); // [px]
+const PADDING = 2; // [px] between glyphs, to avoid bleeding when sampling
+const ATLAS_SIZE = 2048; // [px]
+const FALLBACK_CHAR = "?";
+
+export type Glyph = {
+  /** Texture coordinates of the glyph cell, with v increasing upward */
+  u0: number;
+  v0: number;
+  u1: number;
+  v1: number;
+  /** Width of the glyph cell relative to the line height */
+  width: number;
+};
+
+/**
+ * Text vertex data produced by `GlyphAtlas.layout()`. Each glyph is a quad
+ * made of two triangles (six vertices).
+ */
+export type TextLayout = {
+  /** xyz positions, centered on the origin, in units of the given line height */
+  positions: Float32Array;
+  uvs: Float32Array;
+  vertexCount: number;
+};
+
+/**
+ * A bitmap font texture that glyphs are rasterized into on demand with the
+ * Canvas 2D API. All text shares a single texture, so text of any color or
+ * content can be drawn without allocating new textures.
+ */
+export class GlyphAtlas {
+  readonly texture: THREE.CanvasTexture;
+
+  private _canvas: HTMLCanvasElement;
+  private _context: CanvasRenderingContext2D;
+  private _glyphs = new Map<string, Glyph>();
+  private _cursorX = 0;
+  private _cursorY = 0;
+
+  constructor() {
+    this._canvas = document.createElement("canvas");
+    this._canvas.width = ATLAS_SIZE;
+    this._canvas.height = ATLAS_SIZE;
+    this._context = this._canvas.getContext("2d")!;
+    this._context.font = `${FONT_SIZE}px ${FONT_FAMILY}`;
+    this._context.textBaseline = "middle";
+    this._context.fillStyle = "white";
+
+    this.texture = new THREE.CanvasTexture(this._canvas);
+    this.texture.generateMipmaps = true;
+    this.texture.minFilter = THREE.LinearMipmapLinearFilter;
+    this.texture.magFilter = THREE.LinearFilter;
+
+    // Rasterize the fallback glyph first so it always fits in the atlas
+    this.glyph(FALLBACK_CHAR);
+  }
+
+  dispose(): void {
+    this.texture.dispose();
+    this._glyphs.clear();
+  }
+
+  /**
+   * Build vertex data for a (possibly multi-line) string. Lines are centered
+   * horizontally and the block of lines is centered vertically, matching how
+   * RViz places text markers.
+   */
+  layout(text: string, lineHeight: number): TextLayout {
+    const lines = text.split("\n");
+    let glyphCount = 0;
+    for (const line of lines) {
+      glyphCount += Array.from(line).length;
+    }
+
+    const vertexCount = glyphCount * 6;
+    const positions = new Float32Array(vertexCount * 3);
+    const uvs = new Float32Array(vertexCount * 2);
+
+    let vertex = 0;
+    const addVertex = (x: number, y: number, u: number, v: number) => {
+      positions[vertex * 3 + 0] = x;
+      positions[vertex * 3 + 1] = y;
+      positions[vertex * 3 + 2] = 0;
+      uvs[vertex * 2 + 0] = u;
+      uvs[vertex * 2 + 1] = v;
+      vertex++;
+    };
+
+    const blockHeight = lines.length * lineHeight;
+    for (let i = 0; i < lines.length; i++) {
+      const glyphs = Array.from(lines[i]!, (char) => this.glyph(char));
+      const lineWidth = glyphs.reduce((sum, glyph) => sum + glyph.width, 0) * lineHeight;
+      let x = -lineWidth / 2;
+      const top = blockHeight / 2 - i * lineHeight;
+      const bottom = top - lineHeight;
+      for (const glyph of glyphs) {
+        const right = x + glyph.width * lineHeight;
+        addVertex(x, bottom, glyph.u0, glyph.v0);
+        addVertex(right, bottom, glyph.u1, glyph.v0);
+        addVertex(right, top, glyph.u1, glyph.v1);
+        addVertex(x, bottom, glyph.u0, glyph.v0);
+        addVertex(right, top, glyph.u1, glyph.v1);
+        addVertex(x, top, glyph.u0, glyph.v1);
+        x = right;
+      }
+    }
+
+    return { positions, uvs, vertexCount };
+  }
+
+  /** Returns the atlas entry for a character, rasterizing it if needed */
+  glyph(char: string): Glyph {
+    const existing = this._glyphs.get(char);
+    if (existing) {
+      return existing;
+    }
+
+    const width = Math.ceil(this._context.measureText(char).width);
+    if (this._cursorX + width + PADDING > ATLAS_SIZE) {
+      this._cursorX = 0;
+      this._cursorY += LINE_HEIGHT + PADDING;
+    }
+    if (this._cursorY + LINE_HEIGHT > ATLAS_SIZE) {
+      console.warn(`[GlyphAtlas] Atlas is full, cannot add glyph "${char}"`);
+      return this.glyph(FALLBACK_CHAR);
+    }
+
+    const x = this._cursorX;
+    const y = this._cursorY;
+    this._context.fillText(char, x, y + LINE_HEIGHT / 2);
+    this._cursorX += width + PADDING;
+    this.texture.needsUpdate = true;
+
+    // Canvas rows increase downward while texture v increases upward
+    // (CanvasTexture is flipped on upload)
+    const glyph: Glyph = {
+      u0: x / ATLAS_SIZE,
+      v0: 1 - (y + LINE_HEIGHT) / ATLAS_SIZE,
+      u1: (x + width) / ATLAS_SIZE,
+      v1: 1 - y / ATLAS_SIZE,
+      width: width / LINE_HEIGHT,
+    };
+    this._glyphs.set(char, glyph);
+    return glyph;
+  }
+}
@@ -1,6 +1,7 @@
 import * as THREE from "three";
-import { rgbaToHexString } from "./color";
+
 import { LineMaterial } from "./LineMaterial";
+import { rgbaToHexString } from "./color";
 import { ColorRGBA } from "./ros";
 
 type DisposeMaterial = (material: THREE.Material) => void;
@@ -115,6 +116,27 @@ export const StandardInstancedColor = {
   dispose: disposeStandardMaterial,
 };
 
+export const StandardVertexColor = {
+  id: (transparent: boolean): string => "StandardVertexColor" + (transparent ? "-t" : ""),
+
+  create: (transparent: boolean): THREE.MeshStandardMaterial => {
+    const material = new THREE.MeshStandardMaterial({
+      metalness: 0,
+      roughness: 1,
+      dithering: true,
+      vertexColors: true,
+      side: THREE.DoubleSide,
+    });
+    material.name = StandardVertexColor.id(transparent);
+    material.opacity = 1;
+    material.transparent = transparent;
+    material.depthWrite = !material.transparent;
+    return material;
+  },
+
+  dispose: disposeStandardMaterial,
+};
+
 export const LineBasicColor = {
   id: (color: ColorRGBA): string => "LineBasicColor-" + rgbaToHexString(color),
 
@@ -135,6 +157,60 @@ export const LineBasicColor = {
   },
 };
 
+export const TextColor = {
+  id: (color: ColorRGBA): string => "TextColor-" + rgbaToHexString(color),
+
+  create: (color: ColorRGBA, atlas: THREE.Texture): THREE.ShaderMaterial => {
+    const linearColor = new THREE.Color(color.r, color.g, color.b).convertSRGBToLinear();
+    const material = new THREE.ShaderMaterial({
+      uniforms: {
+        map: { value: atlas },
+        color: { value: new THREE.Vector4(linearColor.r, linearColor.g, linearColor.b, color.a) },
+      },
+      // Billboard the text by offsetting each vertex in view space from the
+      // origin of the object, so the text always faces the camera
+      // The log depth chunks keep text on the same depth scale as the rest of
+      // the scene when the renderer uses a logarithmic depth buffer
+      vertexShader: /* glsl */ `
+        #include <common>
+        #include <logdepthbuf_pars_vertex>
+        varying vec2 vUv;
+        void main() {
+          vUv = uv;
+          vec4 mvPosition = modelViewMatrix * vec4(0.0, 0.0, 0.0, 1.0);
+          mvPosition.xy += position.xy;
+          gl_Position = projectionMatrix * mvPosition;
+          #include <logdepthbuf_vertex>
+        }
+      `,
+      fragmentShader: /* glsl */ `
+        #include <logdepthbuf_pars_fragment>
+        uniform sampler2D map;
+        uniform vec4 color;
+        varying vec2 vUv;
+        void main() {
+          #include <logdepthbuf_fragment>
+          float alpha = texture2D(map, vUv).a * color.a;
+          // Discard the empty space around glyphs so it does not occlude
+          if (alpha < 0.1) discard;
+          gl_FragColor = vec4(color.rgb, alpha);
+          #include <encodings_fragment>
+        }
+      `,
+      side: THREE.DoubleSide,
+    });
+    material.name = TextColor.id(color);
+    material.transparent = true;
+    material.depthWrite = color.a >= 1;
+    return material;
+  },
+
+  dispose: (material: THREE.ShaderMaterial): void => {
+    // The glyph atlas texture is shared and owned by the renderer
+    material.dispose();
+  },
+};
+
 type Scale2D = { x: number; y: number };
 
 export const PointsVertexColor = {
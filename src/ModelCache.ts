@@ -1,17 +1,28 @@
+import * as THREE from "three";
+import { ColladaLoader } from "three/examples/jsm/loaders/ColladaLoader";
 import { GLTFLoader } from "three/examples/jsm/loaders/GLTFLoader";
-import type { GLTF } from "three/examples/jsm/loaders/GLTFLoader";
+import { STLLoader } from "three/examples/jsm/loaders/STLLoader";
 
 export type LoadModelOptions = {
   ignoreColladaUpAxis?: boolean;
 };
 
+/** A loaded model. `scene` is Z-up and must be cloned before use */
+export type LoadedModel = {
+  scene: THREE.Group;
+};
+
+const DEFAULT_STL_COLOR = 0x999999;
+
 export class ModelCache {
   private _gltfLoader = new GLTFLoader();
-  private _models = new Map<string, Promise<GLTF | undefined>>();
+  private _stlLoader = new STLLoader();
+  private _colladaLoader = new ColladaLoader();
+  private _models = new Map<string, Promise<LoadedModel | undefined>>();
 
   constructor(private loadModelOptions: LoadModelOptions) {}
 
-  async load(url: string, reportError: (_: Error) => void): Promise<GLTF | undefined> {
+  async load(url: string, reportError: (_: Error) => void): Promise<LoadedModel | undefined> {
     let promise = this._models.get(url);
     if (promise) return await promise;
 
@@ -23,8 +34,15 @@ export class ModelCache {
     return await promise;
   }
 
-  private async _loadModel(url: string, _options: LoadModelOptions): Promise<GLTF | undefined> {
-    // TODO: Support other model formats
+  private async _loadModel(url: string, options: LoadModelOptions): Promise<LoadedModel> {
+    // Strip any query string or fragment before looking at the extension
+    const extension = url.split(/[?#]/)[0]!.split(".").pop()?.toLowerCase();
+    if (extension === "stl") {
+      return await this._loadStl(url);
+    } else if (extension === "dae") {
+      return await this._loadCollada(url, options);
+    }
+
     const gltf = await this._gltfLoader.loadAsync(url);
 
     // Y-up to Z-up
@@ -32,4 +50,38 @@ export class ModelCache {
 
     return gltf;
   }
+
+  private async _loadStl(url: string): Promise<LoadedModel> {
+    // STL files have no materials and are used as-is, which is Z-up in ROS
+    const geometry = await this._stlLoader.loadAsync(url);
+    const material = new THREE.MeshStandardMaterial({ color: DEFAULT_STL_COLOR });
+    const scene = new THREE.Group();
+    scene.add(new THREE.Mesh(geometry, material));
+    return { scene };
+  }
+
+  private async _loadCollada(url: string, options: LoadModelOptions): Promise<LoadedModel> {
+    const response = await fetch(url);
+    if (!response.ok) {
+      throw new Error(`${response.status} ${response.statusText}`);
+    }
+    let text = await response.text();
+
+    // ROS tools ignore the <up_axis> tag and use the file coordinates as-is.
+    // Without the tag, ColladaLoader leaves the scene untransformed
+    if (options.ignoreColladaUpAxis === true) {
+      const xml = new DOMParser().parseFromString(text, "application/xml");
+      xml.querySelectorAll("up_axis").forEach((node) => node.remove());
+      text = new XMLSerializer().serializeToString(xml);
+    }
+
+    const collada = this._colladaLoader.parse(text, THREE.LoaderUtils.extractUrlBase(url));
+    const scene = new THREE.Group();
+    scene.add(collada.scene);
+    if (options.ignoreColladaUpAxis !== true) {
+      // ColladaLoader converts to Y-up, convert back to Z-up
+      scene.rotateX(Math.PI / 2);
+    }
+    return { scene };
+  }
 }
@@ -1,18 +1,71 @@
-import * as THREE from "three";
+import { ParameterValue, Topic } from "@foxglove/studio";
 import EventEmitter from "eventemitter3";
+import * as THREE from "three";
 import { OrbitControls } from "three/examples/jsm/controls/OrbitControls";
 import { GLTFLoader } from "three/examples/jsm/loaders/GLTFLoader";
 
+import { GlyphAtlas } from "./GlyphAtlas";
 import { Input } from "./Input";
-import { TransformTree } from "./transforms";
-import { Marker, TF } from "./ros";
+import { MaterialCache } from "./MaterialCache";
+import { ModelCache } from "./ModelCache";
+import { TopicErrors } from "./TopicErrors";
+import { Cameras } from "./renderables/Cameras";
+import { DepthClouds } from "./renderables/DepthClouds";
+import { LaserScans } from "./renderables/LaserScans";
 import { Markers } from "./renderables/Markers";
+import { OccupancyGrids } from "./renderables/OccupancyGrids";
+import { Odometries } from "./renderables/Odometries";
+import { Paths } from "./renderables/Paths";
+import { PointClouds } from "./renderables/PointClouds";
+import { Poses } from "./renderables/Poses";
+import { Urdfs } from "./renderables/Urdfs";
 import { FrameAxes } from "./renderables/FrameAxes";
 
 import "./webgl-memory";
-import { TopicErrors } from "./TopicErrors";
-import { MaterialCache } from "./MaterialCache";
-import { ModelCache } from "./ModelCache";
+import { CameraState, isTopicVisible, ThreeDeeConfig, TransformBufferConfig } from "./config";
+import {
+  FrameTransform,
+  frameTransformToTF,
+  Grid,
+  PointCloud,
+  PosesInFrame,
+  SceneUpdate,
+} from "./foxglove";
+import {
+  CameraInfo,
+  CompressedImage,
+  Image,
+  isImageDatatype,
+  JointState,
+  LaserScan,
+  Marker,
+  OccupancyGrid,
+  OccupancyGridUpdate,
+  Odometry,
+  Path,
+  PointCloud2,
+  PoseArray,
+  PoseStamped,
+  PoseWithCovarianceStamped,
+  StdString,
+  TF,
+} from "./ros";
+import {
+  buildSettingsTree,
+  pathStartsWith,
+  SettingsTreeAction,
+  SettingsTreeContributor,
+  SettingsTreeEntry,
+  SettingsTreeField,
+  SettingsTreeNode,
+} from "./settings";
+import {
+  DEFAULT_MAX_SAMPLES,
+  DEFAULT_MAX_STORAGE_TIME,
+  StorageLimits,
+  TransformTree,
+} from "./transforms";
+import { fromSec, toSec } from "./transforms/time";
 
 export enum DetailLevel {
   Low,
@@ -25,6 +78,9 @@ export type RendererEvents = {
   endFrame: (currentTime: bigint, renderer: Renderer) => void;
   renderableSelected: (renderable: THREE.Object3D, renderer: Renderer) => void;
   transformTreeUpdated: (renderer: Renderer) => void;
+  markerNamespacesUpdated: (topic: string, renderer: Renderer) => void;
+  configChange: (config: ThreeDeeConfig, renderer: Renderer) => void;
+  settingsTreeChange: (renderer: Renderer) => void;
   showLabel: (labelId: string, labelMarker: Marker, renderer: Renderer) => void;
   removeLabel: (labelId: string, renderer: Renderer) => void;
 };
@@ -39,33 +95,66 @@ type MemoryInfo = {
 const LIGHT_BACKDROP = new THREE.Color(0xececec);
 const DARK_BACKDROP = new THREE.Color(0x121217);
 
+const LIGHT_GRID_COLOR = "#a0a0a4";
+const DARK_GRID_COLOR = "#404046";
+
+const DEFAULT_GRID_SIZE = 10; // [m]
+const DEFAULT_GRID_DIVISIONS = 10;
+const DEFAULT_DIRECTIONAL_INTENSITY = 1;
+const DEFAULT_AMBIENT_INTENSITY = 0.5;
+const DEFAULT_BUFFER_LENGTH = toSec(DEFAULT_MAX_STORAGE_TIME); // [s]
+
 const tempVec = new THREE.Vector3();
 
-export class Renderer extends EventEmitter<RendererEvents> {
+export class Renderer extends EventEmitter<RendererEvents> implements SettingsTreeContributor {
   canvas: HTMLCanvasElement;
   gl: THREE.WebGLRenderer;
   lod = DetailLevel.High;
   scene: THREE.Scene;
   dirLight: THREE.DirectionalLight;
+  hemiLight: THREE.HemisphereLight;
+  grid: THREE.GridHelper | undefined;
   input: Input;
   camera: THREE.PerspectiveCamera;
   controls: OrbitControls;
   materialCache = new MaterialCache();
+  glyphAtlas = new GlyphAtlas();
   topicErrors = new TopicErrors();
   colorScheme: "dark" | "light" | undefined;
   modelCache: ModelCache;
   renderables = new Map<string, THREE.Object3D>();
   transformTree = new TransformTree();
   currentTime: bigint | undefined;
+  // Time of the previously rendered frame, used to detect backward seeks
+  lastFrameTime: bigint | undefined;
+  config: ThreeDeeConfig;
+  // Renderable topics available in the current data source
+  topics: ReadonlyArray<Topic> = [];
+  private _imageTopics = new Set<string>();
+  // The frames used for rendering this frame. These are the user-selected
+  // frames from the config when available, otherwise automatically chosen
+  // defaults
   fixedFrameId: string | undefined;
   renderFrameId: string | undefined;
 
   frameAxes = new FrameAxes(this);
   markers = new Markers(this);
-
-  constructor(canvas: HTMLCanvasElement) {
+  pointClouds = new PointClouds(this);
+  laserScans = new LaserScans(this);
+  occupancyGrids = new OccupancyGrids(this);
+  poses = new Poses(this);
+  paths = new Paths(this);
+  odometries = new Odometries(this);
+  urdfs = new Urdfs(this);
+  cameras = new Cameras(this);
+  depthClouds = new DepthClouds(this);
+
+  constructor(canvas: HTMLCanvasElement, config: ThreeDeeConfig) {
     super();
 
+    this.config = config;
+    this._updateTransformStorage();
+
     // NOTE: Global side effect
     THREE.Object3D.DefaultUp = new THREE.Vector3(0, 0, 1);
 
@@ -102,6 +191,14 @@ export class Renderer extends EventEmitter<RendererEvents> {
     this.scene = new THREE.Scene();
     this.scene.add(this.frameAxes);
     this.scene.add(this.markers);
+    this.scene.add(this.pointClouds);
+    this.scene.add(this.laserScans);
+    this.scene.add(this.occupancyGrids);
+    this.scene.add(this.poses);
+    this.scene.add(this.paths);
+    this.scene.add(this.odometries);
+    this.scene.add(this.urdfs);
+    this.scene.add(this.cameras);
 
     this.dirLight = new THREE.DirectionalLight();
     this.dirLight.position.set(1, 1, 1);
@@ -114,7 +211,12 @@ export class Renderer extends EventEmitter<RendererEvents> {
     this.dirLight.shadow.bias = -0.00001;
 
     this.scene.add(this.dirLight);
-    this.scene.add(new THREE.HemisphereLight(0xffffff, 0xffffff, 0.5));
+
+    this.hemiLight = new THREE.HemisphereLight(0xffffff, 0xffffff, DEFAULT_AMBIENT_INTENSITY);
+    this.scene.add(this.hemiLight);
+
+    this._updateLighting();
+    this._updateGrid();
 
     this.input = new Input(canvas);
     this.input.on("resize", (size) => this.resizeHandler(size));
@@ -125,10 +227,17 @@ export class Renderer extends EventEmitter<RendererEvents> {
     const far = 10_000; // 10km
     this.camera = new THREE.PerspectiveCamera(fov, width / height, near, far);
     this.camera.up.set(0, 0, 1);
-    this.camera.position.set(1, -3, 1);
-    this.camera.lookAt(new THREE.Vector3(0, 0, 0));
 
     this.controls = new OrbitControls(this.camera, this.gl.domElement);
+    this.setCameraState(config.cameraState);
+    this.controls.addEventListener("change", this.cameraChangeHandler);
+
+    // Any of these events can change the contents of the settings sidebar
+    const settingsTreeChanged = () => this.emit("settingsTreeChange", this);
+    this.on("configChange", settingsTreeChanged);
+    this.on("transformTreeUpdated", settingsTreeChanged);
+    this.on("markerNamespacesUpdated", settingsTreeChanged);
+    this.topicErrors.on("update", settingsTreeChanged);
 
     this.printMemoryStats();
     setInterval(() => this.printMemoryStats(), 30_000);
@@ -139,6 +248,16 @@ export class Renderer extends EventEmitter<RendererEvents> {
   dispose(): void {
     this.frameAxes.dispose();
     this.markers.dispose();
+    this.pointClouds.dispose();
+    this.laserScans.dispose();
+    this.occupancyGrids.dispose();
+    this.poses.dispose();
+    this.paths.dispose();
+    this.odometries.dispose();
+    this.urdfs.dispose();
+    this.cameras.dispose();
+    this.depthClouds.dispose();
+    this.glyphAtlas.dispose();
     this.gl.dispose();
     this.gl.forceContextLoss();
   }
@@ -146,17 +265,400 @@ export class Renderer extends EventEmitter<RendererEvents> {
   setColorScheme(colorScheme: "dark" | "light"): void {
     console.info(`[Renderer] Setting color scheme to "${colorScheme}"`);
     this.colorScheme = colorScheme;
-    this.gl.setClearColor(colorScheme === "dark" ? DARK_BACKDROP : LIGHT_BACKDROP, 1);
+    this._updateClearColor();
+    this._updateGrid();
+  }
+
+  /** Set the list of renderable topics available in the current data source */
+  setTopics(topics: ReadonlyArray<Topic>): void {
+    this.topics = topics;
+    this._imageTopics = new Set(
+      topics.filter((topic) => isImageDatatype(topic.datatype)).map((topic) => topic.name),
+    );
+    this.emit("settingsTreeChange", this);
   }
 
-  addTransformMessage(tf: TF): void {
-    this.frameAxes.addTransformMessage(tf);
+  /** Build the settings sidebar tree from every settings contributor */
+  settingsTree(): SettingsTreeNode {
+    return buildSettingsTree(this._settingsContributors().flatMap((c) => c.settingsNodes()));
+  }
+
+  /** Route a settings sidebar edit to the contributor(s) of the edited node */
+  dispatchSettingsAction(action: SettingsTreeAction): void {
+    for (const contributor of this._settingsContributors()) {
+      const entries = contributor.settingsNodes();
+      if (entries.some((entry) => pathStartsWith(action.path, entry.path))) {
+        contributor.handleSettingsAction(action);
+      }
+    }
+  }
+
+  settingsNodes(): SettingsTreeEntry[] {
+    const config = this.config;
+    const frameIds = Array.from(this.transformTree.frames().keys()).sort();
+    const grid = config.scene.grid ?? {};
+    const lighting = config.scene.lighting ?? {};
+
+    const topicChildren: Record<string, SettingsTreeNode> = {};
+    for (const topic of this.topics) {
+      topicChildren[topic.name] = {
+        label: topic.name,
+        visible: this.topicVisible(topic.name),
+        defaultExpansionState: "collapsed",
+        error: topicErrorsMessage(this.topicErrors.errors.get(topic.name)),
+      };
+    }
+
+    return [
+      {
+        path: ["frames"],
+        node: {
+          label: "Frames",
+          fields: {
+            renderFrameId: {
+              input: "select",
+              label: "Render frame",
+              value: config.renderFrameId,
+              options: frameOptions(frameIds, config.renderFrameId, this.renderFrameId),
+            },
+            fixedFrameId: {
+              input: "select",
+              label: "Fixed frame",
+              value: config.fixedFrameId,
+              options: frameOptions(frameIds, config.fixedFrameId, this.fixedFrameId),
+            },
+          },
+        },
+      },
+      {
+        path: ["transforms"],
+        node: {
+          label: "Transforms",
+          defaultExpansionState: "collapsed",
+          fields: transformBufferFields(config.transforms, {
+            bufferLength: DEFAULT_BUFFER_LENGTH,
+            maxSamples: DEFAULT_MAX_SAMPLES,
+          }),
+          children: Object.fromEntries(
+            frameIds.map((frameId) => [
+              frameId,
+              {
+                label: frameId,
+                defaultExpansionState: "collapsed",
+                fields: transformBufferFields(config.transforms.frames?.[frameId] ?? {}, {
+                  bufferLength: config.transforms.bufferLength ?? DEFAULT_BUFFER_LENGTH,
+                  maxSamples: config.transforms.maxSamples ?? DEFAULT_MAX_SAMPLES,
+                }),
+              },
+            ]),
+          ),
+        },
+      },
+      {
+        path: ["topics"],
+        node: { label: "Topics", children: topicChildren },
+      },
+      {
+        path: ["camera"],
+        node: {
+          label: "Camera",
+          defaultExpansionState: "collapsed",
+          fields: {
+            position: {
+              input: "vec3",
+              label: "Position",
+              value: config.cameraState.position,
+              step: 0.1,
+            },
+            target: { input: "vec3", label: "Target", value: config.cameraState.target, step: 0.1 },
+          },
+        },
+      },
+      {
+        path: ["scene"],
+        node: {
+          label: "Scene",
+          defaultExpansionState: "collapsed",
+          fields: {
+            backgroundColor: {
+              input: "color",
+              label: "Background",
+              value: config.scene.backgroundColor,
+            },
+          },
+          children: {
+            grid: {
+              label: "Grid",
+              visible: grid.visible ?? true,
+              fields: {
+                size: { input: "number", label: "Size", value: grid.size, min: 0, step: 1 },
+                divisions: {
+                  input: "number",
+                  label: "Divisions",
+                  value: grid.divisions,
+                  min: 1,
+                  step: 1,
+                },
+                color: { input: "color", label: "Color", value: grid.color },
+              },
+            },
+            lighting: {
+              label: "Lighting",
+              fields: {
+                directionalIntensity: {
+                  input: "number",
+                  label: "Directional",
+                  value: lighting.directionalIntensity,
+                  placeholder: String(DEFAULT_DIRECTIONAL_INTENSITY),
+                  min: 0,
+                  step: 0.1,
+                },
+                ambientIntensity: {
+                  input: "number",
+                  label: "Ambient",
+                  value: lighting.ambientIntensity,
+                  placeholder: String(DEFAULT_AMBIENT_INTENSITY),
+                  min: 0,
+                  step: 0.1,
+                },
+                shadows: { input: "boolean", label: "Shadows", value: lighting.shadows ?? true },
+              },
+            },
+          },
+        },
+      },
+    ];
+  }
+
+  handleSettingsAction(action: SettingsTreeAction): void {
+    const { path, value } = action;
+    const [section, key, subkey] = path;
+    if (section === "frames") {
+      const frameId = typeof value === "string" ? value : undefined;
+      if (key === "renderFrameId") {
+        this.setFrames(frameId, this.config.fixedFrameId);
+      } else if (key === "fixedFrameId") {
+        this.setFrames(this.config.renderFrameId, frameId);
+      }
+    } else if (section === "transforms") {
+      this._handleTransformsAction(path, value);
+    } else if (section === "topics" && path.length === 3 && subkey === "visible") {
+      this.setTopicVisible(key!, value === true);
+    } else if (section === "camera" && Array.isArray(value)) {
+      const cameraState = { ...this.config.cameraState };
+      if (key === "position") {
+        cameraState.position = value;
+      } else if (key === "target") {
+        cameraState.target = value;
+      }
+      this.setCameraState(cameraState);
+    } else if (section === "scene" && key === "backgroundColor") {
+      this.setBackgroundColor(typeof value === "string" ? value : undefined);
+    } else if (section === "scene" && key === "grid" && subkey != undefined) {
+      this.updateConfig((config) => ({
+        ...config,
+        scene: { ...config.scene, grid: { ...config.scene.grid, [subkey]: value } },
+      }));
+      this._updateGrid();
+    } else if (section === "scene" && key === "lighting" && subkey != undefined) {
+      this.updateConfig((config) => ({
+        ...config,
+        scene: { ...config.scene, lighting: { ...config.scene.lighting, [subkey]: value } },
+      }));
+      this._updateLighting();
+    }
+  }
+
+  /**
+   * Replace the config with the result of `updater` and notify listeners,
+   * such as the panel which persists the config to the layout.
+   */
+  updateConfig(updater: (config: ThreeDeeConfig) => ThreeDeeConfig): void {
+    this.config = updater(this.config);
+    this.emit("configChange", this.config, this);
+  }
+
+  /**
+   * Returns false if the user has hidden the given topic, otherwise true.
+   * Image topics are hidden unless the user has shown them
+   */
+  topicVisible(topic: string): boolean {
+    return isTopicVisible(this.config.topics, topic, this._imageTopics.has(topic));
+  }
+
+  /**
+   * Show or hide a topic. Hiding a topic removes anything rendered from its
+   * messages; the panel is responsible for unsubscribing from it.
+   */
+  setTopicVisible(topic: string, visible: boolean): void {
+    if (this.topicVisible(topic) === visible) {
+      return;
+    }
+    console.info(`[Renderer] ${visible ? "Showing" : "Hiding"} topic "${topic}"`);
+    this.updateConfig((config) => ({
+      ...config,
+      topics: { ...config.topics, [topic]: { ...config.topics[topic], visible } },
+    }));
+    if (!visible) {
+      this.markers.removeTopic(topic);
+      this.pointClouds.removeTopic(topic);
+      this.laserScans.removeTopic(topic);
+      this.occupancyGrids.removeTopic(topic);
+      this.poses.removeTopic(topic);
+      this.paths.removeTopic(topic);
+      this.odometries.removeTopic(topic);
+      this.urdfs.removeTopic(topic);
+      this.cameras.removeTopic(topic);
+      this.depthClouds.removeTopic(topic);
+      this.topicErrors.clearTopic(topic);
+    }
+  }
+
+  setBackgroundColor(backgroundColor: string | undefined): void {
+    this.updateConfig((config) => ({ ...config, scene: { ...config.scene, backgroundColor } }));
+    this._updateClearColor();
+  }
+
+  setCameraState(cameraState: CameraState): void {
+    const p = cameraState.position;
+    const t = cameraState.target;
+    this.camera.position.set(p[0], p[1], p[2]);
+    this.controls.target.set(t[0], t[1], t[2]);
+    // Emits a "change" event, which updates the config
+    this.controls.update();
+  }
+
+  /**
+   * Move the camera target to the origin of the given frame, keeping the
+   * offset of the camera from its target. Returns false if the frame cannot
+   * currently be placed in the render frame.
+   */
+  focusFrame(frameId: string): boolean {
+    const axis = this.frameAxes.renderables.get(frameId);
+    // Frame axes are hidden when their transform lookup fails
+    if (axis?.visible !== true) {
+      return false;
+    }
+    const t = axis.position;
+    const offset = tempVec.copy(this.camera.position).sub(this.controls.target);
+    this.setCameraState({
+      position: [t.x + offset.x, t.y + offset.y, t.z + offset.z],
+      target: [t.x, t.y, t.z],
+    });
+    return true;
+  }
+
+  /**
+   * Set the frame the scene is rendered in (render frame) and the frame that
+   * is considered stationary over time (fixed frame). Passing undefined for
+   * either frame selects a default automatically.
+   */
+  setFrames(renderFrameId: string | undefined, fixedFrameId: string | undefined): void {
+    if (renderFrameId === this.config.renderFrameId && fixedFrameId === this.config.fixedFrameId) {
+      return;
+    }
+    console.info(
+      `[Renderer] Setting render frame to "${renderFrameId ?? "<auto>"}", fixed frame to "${
+        fixedFrameId ?? "<auto>"
+      }"`,
+    );
+    this.updateConfig((config) => ({ ...config, renderFrameId, fixedFrameId }));
+    this._updateFrames();
+  }
+
+  /** Static transforms, such as those on `/tf_static`, are valid at any time */
+  addTransformMessage(topic: string, tf: TF, isStatic = false): void {
+    this.urdfs.addTransformFrame(tf.child_frame_id);
+    this.frameAxes.addTransformMessage(topic, tf, isStatic);
+  }
+
+  addFrameTransformMessage(topic: string, frameTransform: FrameTransform): void {
+    this.addTransformMessage(topic, frameTransformToTF(frameTransform));
   }
 
   addMarkerMessage(topic: string, marker: Marker): void {
     this.markers.addMarkerMessage(topic, marker);
   }
 
+  addSceneUpdateMessage(topic: string, sceneUpdate: SceneUpdate): void {
+    this.markers.addSceneUpdateMessage(topic, sceneUpdate);
+  }
+
+  addPointCloud2Message(topic: string, pointCloud: PointCloud2): void {
+    this.pointClouds.addPointCloud2Message(topic, pointCloud);
+  }
+
+  addPointCloudMessage(topic: string, pointCloud: PointCloud): void {
+    this.pointClouds.addPointCloudMessage(topic, pointCloud);
+  }
+
+  addLaserScanMessage(topic: string, laserScan: LaserScan): void {
+    this.laserScans.addLaserScanMessage(topic, laserScan);
+  }
+
+  addOccupancyGridMessage(topic: string, occupancyGrid: OccupancyGrid): void {
+    this.occupancyGrids.addOccupancyGridMessage(topic, occupancyGrid);
+  }
+
+  addOccupancyGridUpdateMessage(topic: string, update: OccupancyGridUpdate): void {
+    this.occupancyGrids.addOccupancyGridUpdateMessage(topic, update);
+  }
+
+  addGridMessage(topic: string, grid: Grid): void {
+    this.occupancyGrids.addGridMessage(topic, grid);
+  }
+
+  addPoseStampedMessage(topic: string, poseStamped: PoseStamped): void {
+    this.poses.addPoseStampedMessage(topic, poseStamped);
+  }
+
+  addPoseArrayMessage(topic: string, poseArray: PoseArray): void {
+    this.poses.addPoseArrayMessage(topic, poseArray);
+  }
+
+  addPosesInFrameMessage(topic: string, posesInFrame: PosesInFrame): void {
+    this.poses.addPosesInFrameMessage(topic, posesInFrame);
+  }
+
+  addPoseWithCovarianceStampedMessage(topic: string, message: PoseWithCovarianceStamped): void {
+    this.poses.addPoseWithCovarianceStampedMessage(topic, message);
+  }
+
+  addPathMessage(topic: string, path: Path): void {
+    this.paths.addPathMessage(topic, path);
+  }
+
+  addOdometryMessage(topic: string, odometry: Odometry): void {
+    this.odometries.addOdometryMessage(topic, odometry);
+  }
+
+  addCameraInfoMessage(topic: string, cameraInfo: CameraInfo): void {
+    this.cameras.addCameraInfoMessage(topic, cameraInfo);
+    this.depthClouds.addCameraInfoMessage(topic, cameraInfo);
+  }
+
+  addImageMessage(topic: string, image: Image): void {
+    this.cameras.addImageMessage(topic, image);
+    this.depthClouds.addImageMessage(topic, image);
+  }
+
+  addCompressedImageMessage(topic: string, image: CompressedImage): void {
+    this.cameras.addCompressedImageMessage(topic, image);
+  }
+
+  addJointStateMessage(topic: string, jointState: JointState): void {
+    this.urdfs.addJointStateMessage(topic, jointState);
+  }
+
+  addRobotDescriptionMessage(topic: string, robotDescription: StdString): void {
+    this.urdfs.addRobotDescriptionMessage(topic, robotDescription.data);
+  }
+
+  /** Set the current parameter values of the data source */
+  setParameters(parameters: ReadonlyMap<string, ParameterValue>): void {
+    this.urdfs.setParameters(parameters);
+  }
+
   markerWorldPosition(markerId: string): Readonly<THREE.Vector3> | undefined {
     const renderable = this.renderables.get(markerId);
     if (!renderable) return undefined;
@@ -197,16 +699,30 @@ export class Renderer extends EventEmitter<RendererEvents> {
   frameHandler = (currentTime: bigint): void => {
     this.emit("startFrame", currentTime, this);
 
+    if (this.lastFrameTime != undefined && currentTime < this.lastFrameTime) {
+      this.markers.seekBackward(currentTime);
+      this.odometries.seekBackward(currentTime);
+    }
+    this.lastFrameTime = currentTime;
+
     this.controls.update();
 
-    // TODO: Remove this hack when the user can set the renderFrameId themselves
-    this.fixedFrameId = "base_link";
-    this.renderFrameId = "base_link";
+    this._updateFrames();
 
     this.materialCache.update(this.input.canvasSize);
 
+    // Only keep the lookup failures from this frame
+    this.transformTree.lookupFailures.clear();
     this.frameAxes.startFrame(currentTime);
     this.markers.startFrame(currentTime);
+    this.pointClouds.startFrame(currentTime);
+    this.laserScans.startFrame(currentTime);
+    this.occupancyGrids.startFrame(currentTime);
+    this.poses.startFrame(currentTime);
+    this.paths.startFrame(currentTime);
+    this.odometries.startFrame(currentTime);
+    this.urdfs.startFrame(currentTime);
+    this.cameras.startFrame(currentTime);
 
     this.gl.clear();
     this.gl.render(this.scene, this.camera);
@@ -228,6 +744,173 @@ export class Renderer extends EventEmitter<RendererEvents> {
   clickHandler = (_cursorCoords: THREE.Vector2): void => {
     //
   };
+
+  cameraChangeHandler = (): void => {
+    const p = this.camera.position;
+    const t = this.controls.target;
+    this.updateConfig((config) => ({
+      ...config,
+      cameraState: { position: [p.x, p.y, p.z], target: [t.x, t.y, t.z] },
+    }));
+  };
+
+  private _settingsContributors(): SettingsTreeContributor[] {
+    return [
+      this,
+      this.frameAxes,
+      this.markers,
+      this.pointClouds,
+      this.laserScans,
+      this.occupancyGrids,
+      this.poses,
+      this.paths,
+      this.odometries,
+      this.urdfs,
+      this.cameras,
+      this.depthClouds,
+    ];
+  }
+
+  // ["transforms", key] edits the defaults, ["transforms", frameId, key] a
+  // single frame. Empty or non-positive values fall back to the default
+  private _handleTransformsAction(
+    path: ReadonlyArray<string>,
+    value: SettingsTreeAction["value"],
+  ): void {
+    const key = path[path.length - 1]!;
+    if (key !== "bufferLength" && key !== "maxSamples") {
+      return;
+    }
+    const number = typeof value === "number" && value > 0 ? value : undefined;
+    if (path.length === 2) {
+      this.updateConfig((config) => ({
+        ...config,
+        transforms: { ...config.transforms, [key]: number },
+      }));
+    } else if (path.length === 3) {
+      const frameId = path[1]!;
+      this.updateConfig((config) => {
+        const frames = config.transforms.frames ?? {};
+        return {
+          ...config,
+          transforms: {
+            ...config.transforms,
+            frames: { ...frames, [frameId]: { ...frames[frameId], [key]: number } },
+          },
+        };
+      });
+    }
+    this._updateTransformStorage();
+  }
+
+  private _updateTransformStorage(): void {
+    const transforms = this.config.transforms;
+    const frameLimits = new Map<string, Partial<StorageLimits>>();
+    for (const [frameId, frameConfig] of Object.entries(transforms.frames ?? {})) {
+      if (frameConfig) {
+        frameLimits.set(frameId, storageLimits(frameConfig));
+      }
+    }
+    this.transformTree.setStorageLimits(
+      {
+        maxStorageTime: DEFAULT_MAX_STORAGE_TIME,
+        maxSamples: DEFAULT_MAX_SAMPLES,
+        ...storageLimits(transforms),
+      },
+      frameLimits,
+    );
+  }
+
+  private _updateGrid(): void {
+    const gridConfig = this.config.scene.grid ?? {};
+    if (this.grid) {
+      this.scene.remove(this.grid);
+      this.grid.geometry.dispose();
+      (this.grid.material as THREE.Material).dispose();
+      this.grid = undefined;
+    }
+    if (gridConfig.visible === false) {
+      return;
+    }
+
+    const size = gridConfig.size ?? DEFAULT_GRID_SIZE;
+    const divisions = Math.max(1, Math.round(gridConfig.divisions ?? DEFAULT_GRID_DIVISIONS));
+    const color =
+      gridConfig.color ?? (this.colorScheme === "dark" ? DARK_GRID_COLOR : LIGHT_GRID_COLOR);
+    this.grid = new THREE.GridHelper(size, divisions, color, color);
+    // GridHelper lies in the XZ plane, rotate it into the XY plane (Z-up)
+    this.grid.rotateX(Math.PI / 2);
+    this.scene.add(this.grid);
+  }
+
+  private _updateLighting(): void {
+    const lighting = this.config.scene.lighting ?? {};
+    this.dirLight.intensity = lighting.directionalIntensity ?? DEFAULT_DIRECTIONAL_INTENSITY;
+    this.dirLight.castShadow = lighting.shadows ?? true;
+    this.hemiLight.intensity = lighting.ambientIntensity ?? DEFAULT_AMBIENT_INTENSITY;
+  }
+
+  private _updateClearColor(): void {
+    const backgroundColor = this.config.scene.backgroundColor;
+    if (backgroundColor != undefined) {
+      this.gl.setClearColor(new THREE.Color(backgroundColor), 1);
+    } else {
+      this.gl.setClearColor(this.colorScheme === "dark" ? DARK_BACKDROP : LIGHT_BACKDROP, 1);
+    }
+  }
+
+  // Resolve the render and fixed frames from the user selection, falling back
+  // to the root of the largest connected tree when the selected frame does
+  // not exist (yet) in the transform tree
+  private _updateFrames(): void {
+    const tree = this.transformTree;
+
+    const { renderFrameId, fixedFrameId } = this.config;
+
+    const renderFrame =
+      (renderFrameId != undefined ? tree.frame(renderFrameId) : undefined) ??
+      tree.defaultRootFrame();
+    this.renderFrameId = renderFrame?.id;
+
+    const fixedFrame =
+      (fixedFrameId != undefined ? tree.frame(fixedFrameId) : undefined) ?? renderFrame?.root();
+    this.fixedFrameId = fixedFrame?.id;
+  }
+}
+
+function frameOptions(
+  frameIds: string[],
+  selectedFrameId: string | undefined,
+  autoFrameId: string | undefined,
+): { label: string; value: string | undefined }[] {
+  const options: { label: string; value: string | undefined }[] = [
+    { label: autoFrameId != undefined ? `Auto (${autoFrameId})` : "Auto", value: undefined },
+  ];
+  // Keep a selected frame in the list even if it has not been seen yet, such
+  // as a frame restored from saved panel state before any TF messages arrive
+  if (selectedFrameId != undefined && !frameIds.includes(selectedFrameId)) {
+    options.push({ label: `${selectedFrameId} (missing)`, value: selectedFrameId });
+  }
+  for (const frameId of frameIds) {
+    options.push({ label: frameId, value: frameId });
+  }
+  return options;
+}
+
+// Topics such as marker topics can have an error for each marker, so only
+// the first few are listed
+const MAX_TOPIC_ERROR_LINES = 5;
+
+function topicErrorsMessage(errors: Map<string, string> | undefined): string | undefined {
+  if (!errors || errors.size === 0) {
+    return undefined;
+  }
+  const messages = Array.from(errors.values());
+  if (messages.length <= MAX_TOPIC_ERROR_LINES) {
+    return messages.join("\n");
+  }
+  const more = messages.length - MAX_TOPIC_ERROR_LINES;
+  return [...messages.slice(0, MAX_TOPIC_ERROR_LINES), `...and ${more} more`].join("\n");
 }
 
 const FILESIZE_SUFFIXES = ["B", "kB", "MB", "GB", "TB"];
@@ -236,3 +919,40 @@ function byteString(size: number): string {
   const n = Number((size / Math.pow(1024, i)).toFixed(2));
   return n + " " + FILESIZE_SUFFIXES[i];
 }
+
+// Convert buffer settings into transform tree storage limits, leaving out
+// unset values so they fall back to the next level of defaults
+function storageLimits(config: TransformBufferConfig): Partial<StorageLimits> {
+  const limits: Partial<StorageLimits> = {};
+  if (config.bufferLength != undefined) {
+    limits.maxStorageTime = fromSec(config.bufferLength);
+  }
+  if (config.maxSamples != undefined) {
+    limits.maxSamples = Math.max(1, Math.round(config.maxSamples));
+  }
+  return limits;
+}
+
+function transformBufferFields(
+  config: TransformBufferConfig,
+  defaults: Required<TransformBufferConfig>,
+): Record<string, SettingsTreeField> {
+  return {
+    bufferLength: {
+      input: "number",
+      label: "Buffer length (s)",
+      value: config.bufferLength,
+      placeholder: String(defaults.bufferLength),
+      min: 0,
+      step: 1,
+    },
+    maxSamples: {
+      input: "number",
+      label: "Max samples",
+      value: config.maxSamples,
+      placeholder: String(defaults.maxSamples),
+      min: 1,
+      step: 100,
+    },
+  };
+}
@@ -0,0 +1,278 @@
+import { css } from "@emotion/css";
+import { useEffect, useState } from "react";
+
+import { useRenderer, useRendererEvent } from "./RendererContext";
+import { Vec3Tuple } from "./config";
+import { overlayClassName, overlayRow, overlaySummaryRow } from "./overlayStyles";
+import { SettingsTreeField, SettingsTreeFieldValue, SettingsTreeNode } from "./settings";
+
+const sidebar = css`
+  width: 260px;
+`;
+
+const header = css`
+  display: flex;
+  align-items: center;
+  justify-content: space-between;
+  font-weight: bold;
+`;
+
+const nested = css`
+  padding-left: 12px;
+`;
+
+const summary = css`
+  cursor: pointer;
+`;
+
+const error = css`
+  color: #f54966;
+  white-space: pre-wrap;
+`;
+
+const numberInput = css`
+  width: 60px;
+`;
+
+type Props = {
+  colorScheme: "dark" | "light" | undefined;
+};
+
+type UpdateHandler = (path: ReadonlyArray<string>, value: SettingsTreeFieldValue) => void;
+
+/**
+ * A collapsible sidebar that renders the renderer's settings tree. Every
+ * setting is declared by the renderer and its renderables, so this component
+ * has no knowledge of individual settings.
+ */
+export function SettingsSidebar(props: Props): JSX.Element {
+  const renderer = useRenderer();
+  const [open, setOpen] = useState(true);
+  const [tree, setTree] = useState<SettingsTreeNode | undefined>();
+
+  useEffect(() => setTree(renderer?.settingsTree()), [renderer]);
+
+  // Rebuild the tree at most once per animation frame, since the events that
+  // change it (such as camera movement) can fire many times per frame
+  const [pendingUpdate, setPendingUpdate] = useState(false);
+  useRendererEvent("settingsTreeChange", () => setPendingUpdate(true));
+  useEffect(() => {
+    if (!pendingUpdate || !renderer) {
+      return;
+    }
+    const handle = requestAnimationFrame(() => {
+      setPendingUpdate(false);
+      setTree(renderer.settingsTree());
+    });
+    return () => cancelAnimationFrame(handle);
+  }, [pendingUpdate, renderer]);
+
+  const onUpdate: UpdateHandler = (path, value) =>
+    renderer?.dispatchSettingsAction({ action: "update", path, value });
+
+  return (
+    <div className={`${overlayClassName(props.colorScheme)} ${open ? sidebar : ""}`}>
+      <div className={header}>
+        {open ? "Settings" : undefined}
+        <button onClick={() => setOpen(!open)} title={open ? "Hide settings" : "Show settings"}>
+          {open ? "›" : "‹"}
+        </button>
+      </div>
+      {open && tree ? (
+        <SettingsNodeChildren node={tree} path={[]} onUpdate={onUpdate} />
+      ) : undefined}
+    </div>
+  );
+}
+
+function SettingsNodeChildren(props: {
+  node: SettingsTreeNode;
+  path: ReadonlyArray<string>;
+  onUpdate: UpdateHandler;
+}): JSX.Element {
+  const { node, path, onUpdate } = props;
+  return (
+    <>
+      {Object.entries(node.fields ?? {}).map(([key, field]) =>
+        field ? (
+          <SettingsFieldInput
+            key={`field-${key}`}
+            field={field}
+            onChange={(value) => onUpdate([...path, key], value)}
+          />
+        ) : undefined,
+      )}
+      {Object.entries(node.children ?? {}).map(([key, child]) =>
+        child ? (
+          <SettingsNodeView
+            key={`child-${key}`}
+            node={child}
+            path={[...path, key]}
+            onUpdate={onUpdate}
+          />
+        ) : undefined,
+      )}
+    </>
+  );
+}
+
+function SettingsNodeView(props: {
+  node: SettingsTreeNode;
+  path: ReadonlyArray<string>;
+  onUpdate: UpdateHandler;
+}): JSX.Element {
+  const { node, path, onUpdate } = props;
+  const hasContent =
+    Object.keys(node.fields ?? {}).length > 0 || Object.keys(node.children ?? {}).length > 0;
+  const label = node.label ?? path[path.length - 1];
+  const visibleToggle =
+    node.visible != undefined ? (
+      <input
+        type="checkbox"
+        checked={node.visible}
+        onClick={(event) => event.stopPropagation()}
+        onChange={(event) => onUpdate([...path, "visible"], event.target.checked)}
+      />
+    ) : undefined;
+  const errorMessage = node.error ? <div className={error}>{node.error}</div> : undefined;
+
+  if (!hasContent) {
+    return (
+      <div>
+        <label className={overlayRow}>
+          {label}
+          {visibleToggle}
+        </label>
+        {errorMessage}
+      </div>
+    );
+  }
+
+  return (
+    <details open={node.defaultExpansionState !== "collapsed"}>
+      <summary className={summary}>
+        <span className={overlaySummaryRow}>
+          {label}
+          {visibleToggle}
+        </span>
+      </summary>
+      {errorMessage}
+      <div className={nested}>
+        <SettingsNodeChildren {...props} />
+      </div>
+    </details>
+  );
+}
+
+function SettingsFieldInput(props: {
+  field: SettingsTreeField;
+  onChange: (value: SettingsTreeFieldValue) => void;
+}): JSX.Element {
+  const { field, onChange } = props;
+  let input: JSX.Element;
+  switch (field.input) {
+    case "boolean":
+      input = (
+        <input
+          type="checkbox"
+          checked={field.value ?? false}
+          onChange={(event) => onChange(event.target.checked)}
+        />
+      );
+      break;
+    case "number":
+      input = (
+        <input
+          type="number"
+          className={numberInput}
+          value={field.value ?? ""}
+          placeholder={field.placeholder}
+          min={field.min}
+          max={field.max}
+          step={field.step}
+          onChange={(event) => {
+            const value = event.target.valueAsNumber;
+            onChange(isNaN(value) ? undefined : value);
+          }}
+        />
+      );
+      break;
+    case "string":
+      input = (
+        <input
+          type="text"
+          value={field.value ?? ""}
+          onChange={(event) => onChange(event.target.value || undefined)}
+        />
+      );
+      break;
+    case "color":
+      input = (
+        <span>
+          <input
+            type="color"
+            value={field.value ?? "#000000"}
+            onChange={(event) => onChange(event.target.value)}
+          />
+          <button
+            disabled={field.value == undefined}
+            title="Reset to default"
+            onClick={() => onChange(undefined)}
+          >
+            ×
+          </button>
+        </span>
+      );
+      break;
+    case "select":
+      input = (
+        <select
+          value={field.value ?? ""}
+          onChange={(event) => onChange(event.target.value || undefined)}
+        >
+          {field.options.map((option) => (
+            <option key={option.value ?? ""} value={option.value ?? ""}>
+              {option.label}
+            </option>
+          ))}
+        </select>
+      );
+      break;
+    case "vec3":
+      input = (
+        <span>
+          {[0, 1, 2].map((i) => (
+            <input
+              key={i}
+              type="number"
+              className={numberInput}
+              step={field.step}
+              value={field.value?.[i] != undefined ? round(field.value[i]!) : ""}
+              onChange={(event) => {
+                const value = event.target.valueAsNumber;
+                if (field.value && !isNaN(value)) {
+                  const vec3 = [...field.value] as Vec3Tuple;
+                  vec3[i] = value;
+                  onChange(vec3);
+                }
+              }}
+            />
+          ))}
+        </span>
+      );
+      break;
+  }
+
+  return (
+    <label className={overlayRow} title={field.help}>
+      {field.label}
+      {input}
+    </label>
+  );
+}
+
+// Avoid displaying long floating point tails for values such as the camera
+// position, which change continuously
+function round(value: number): number {
+  return Math.round(value * 1000) / 1000;
+}
@@ -1,29 +1,86 @@
 /** @jsxImportSource @emotion/react */
-import { jsx } from "@emotion/react";
 import { css } from "@emotion/css";
-
-import { PanelExtensionContext, RenderState, Topic, MessageEvent } from "@foxglove/studio";
+import { jsx } from "@emotion/react";
+import {
+  PanelExtensionContext,
+  ParameterValue,
+  RenderState,
+  Topic,
+  MessageEvent,
+} from "@foxglove/studio";
 import React, { useRef } from "react";
 import { useLayoutEffect, useEffect, useState, useMemo } from "react";
 import ReactDOM from "react-dom";
+
 import { DebugGui } from "./DebugGui";
+import { setOverlayPosition } from "./LabelOverlay";
 import { Renderer } from "./Renderer";
 import { RendererContext, useRenderer, useRendererEvent } from "./RendererContext";
+import { SettingsSidebar } from "./SettingsSidebar";
 import { Stats } from "./Stats";
+import { TransformTreeInspector } from "./TransformTreeInspector";
+import { isTopicVisible, migrateConfig, pairedImageTopics, ThreeDeeConfig } from "./config";
+import {
+  FOXGLOVE_POINTCLOUD_DATATYPES,
+  FrameTransform,
+  FrameTransforms,
+  FRAME_TRANSFORMS_DATATYPES,
+  FRAME_TRANSFORM_DATATYPES,
+  Grid,
+  GRID_DATATYPES,
+  PointCloud,
+  PosesInFrame,
+  POSES_IN_FRAME_DATATYPES,
+  SceneUpdate,
+  SCENE_UPDATE_DATATYPES,
+} from "./foxglove";
+import { normalizeMessage } from "./normalizeMessage";
 import {
   TRANSFORM_STAMPED_DATATYPES,
   TF_DATATYPES,
   MARKER_DATATYPES,
   MARKER_ARRAY_DATATYPES,
+  POINTCLOUD_DATATYPES,
+  LASERSCAN_DATATYPES,
+  OCCUPANCY_GRID_DATATYPES,
+  OCCUPANCY_GRID_UPDATE_DATATYPES,
+  POSE_STAMPED_DATATYPES,
+  POSE_ARRAY_DATATYPES,
+  POSE_WITH_COVARIANCE_STAMPED_DATATYPES,
+  PATH_DATATYPES,
+  ODOMETRY_DATATYPES,
+  ROBOT_DESCRIPTION_DATATYPES,
+  JOINT_STATE_DATATYPES,
+  CAMERA_INFO_DATATYPES,
+  IMAGE_DATATYPES,
+  COMPRESSED_IMAGE_DATATYPES,
   TF,
   Marker,
+  PointCloud2,
+  LaserScan,
+  OccupancyGrid,
+  OccupancyGridUpdate,
+  PoseStamped,
+  PoseArray,
+  PoseWithCovarianceStamped,
+  Path,
+  Odometry,
+  StdString,
+  JointState,
+  CameraInfo,
+  Image,
+  CompressedImage,
   rosTimeToNanoSec,
+  isImageDatatype,
 } from "./ros";
-import { setOverlayPosition } from "./LabelOverlay";
 
 const SHOW_STATS = true;
 const SHOW_DEBUG = false;
 
+const SAVE_STATE_DEBOUNCE_MS = 500;
+
+const MALFORMED_MESSAGE = "MALFORMED_MESSAGE";
+
 const MONOSPACE_FONTS = `"IBM Plex Mono", Consolas, "Andale Mono WT", "Andale Mono", "Lucida Console", "Lucida Sans Typewriter", "DejaVu Sans Mono", "Bitstream Vera Sans Mono", "Liberation Mono", "Nimbus Mono L", Monaco, "Courier New", Courier, monospace`;
 
 const labelLight = css`
@@ -40,6 +97,22 @@ const labelDark = css`
   background-color: #181818cc;
 `;
 
+const settingsWrapper = css`
+  position: absolute;
+  top: 0;
+  right: 0;
+  max-height: 100%;
+  overflow-y: auto;
+`;
+
+const transformsWrapper = css`
+  position: absolute;
+  bottom: 0;
+  left: 0;
+  max-height: 50%;
+  overflow-y: auto;
+`;
+
 function RendererOverlay(props: { colorScheme: "dark" | "light" | undefined }): JSX.Element {
   const colorScheme = props.colorScheme;
   const [_selectedRenderable, setSelectedRenderable] = useState<THREE.Object3D | null>(null);
@@ -112,6 +185,18 @@ function RendererOverlay(props: { colorScheme: "dark" | "light" | undefined }):
     </div>
   ) : undefined;
 
+  const settings = (
+    <div id="settings" className={settingsWrapper}>
+      <SettingsSidebar colorScheme={colorScheme} />
+    </div>
+  );
+
+  const transforms = (
+    <div id="transforms" className={transformsWrapper}>
+      <TransformTreeInspector colorScheme={colorScheme} />
+    </div>
+  );
+
   const debug = SHOW_DEBUG ? (
     <div id="debug" css={{ position: "absolute", top: 60 }}>
       <DebugGui />
@@ -122,23 +207,34 @@ function RendererOverlay(props: { colorScheme: "dark" | "light" | undefined }):
     <React.Fragment>
       {labels}
       {stats}
+      {settings}
+      {transforms}
       {debug}
     </React.Fragment>
   );
 }
 
 export function ThreeDeePanel({ context }: { context: PanelExtensionContext }): JSX.Element {
+  // The latest panel config. This is initialized from the saved panel state
+  // and handed to each new Renderer, which owns it from then on
+  const configRef = useRef<ThreeDeeConfig | undefined>();
+  configRef.current ??= migrateConfig(context.initialState);
+
   const [canvas, setCanvas] = useState<HTMLCanvasElement | null>(null);
   const [renderer, setRenderer] = useState<Renderer | null>(null);
-  useEffect(() => setRenderer(canvas ? new Renderer(canvas) : null), [canvas]);
+  useEffect(() => setRenderer(canvas ? new Renderer(canvas, configRef.current!) : null), [canvas]);
 
   const [colorScheme, setColorScheme] = useState<"dark" | "light" | undefined>();
   const [topics, setTopics] = useState<ReadonlyArray<Topic> | undefined>();
   const [messages, setMessages] = useState<ReadonlyArray<MessageEvent<unknown>> | undefined>();
   const [currentTime, setCurrentTime] = useState<bigint | undefined>();
+  const [parameters, setParameters] = useState<ReadonlyMap<string, ParameterValue> | undefined>();
 
   const [renderDone, setRenderDone] = useState<(() => void) | undefined>();
 
+  // Mirror of the renderer's topic config, used to drive subscriptions
+  const [topicsConfig, setTopicsConfig] = useState(configRef.current.topics);
+
   // We use a layout effect to setup render handling for our panel. We also setup some topic subscriptions.
   useLayoutEffect(() => {
     // The render handler is run by the broader studio system during playback when your panel
@@ -174,6 +270,9 @@ export function ThreeDeePanel({ context }: { context: PanelExtensionContext }):
 
       // currentFrame has messages on subscribed topics since the last render call
       setMessages(renderState.currentFrame);
+
+      // Parameters may contain a robot description
+      setParameters(renderState.parameters);
     };
 
     // After adding a render handler, you must indicate which fields from RenderState will trigger updates.
@@ -185,6 +284,9 @@ export function ThreeDeePanel({ context }: { context: PanelExtensionContext }):
     // Tell the panel context we want messages for the current frame for topics we've subscribed to
     // This corresponds to the _currentFrame_ field of render state.
     context.watch("currentFrame");
+
+    // Tell the panel context we want the current parameter values
+    context.watch("parameters");
   }, []);
 
   // Build a map from topic name to datatype
@@ -197,32 +299,39 @@ export function ThreeDeePanel({ context }: { context: PanelExtensionContext }):
     return map;
   }, [topics]);
 
-  // Build a list of topics to subscribe to
-  const topicsToSubscribe = useMemo(() => {
-    const subscriptionList: string[] = [];
+  // Build a sorted list of topics this panel knows how to render
+  const renderableTopics = useMemo(() => {
     if (!topics) {
-      return undefined;
+      return [];
     }
+    return topics.filter(isRenderableTopic).sort((a, b) => a.name.localeCompare(b.name));
+  }, [topics]);
 
-    for (const topic of topics) {
-      // Subscribe to all transform topics
-      if (TF_DATATYPES.has(topic.datatype) || TRANSFORM_STAMPED_DATATYPES.has(topic.datatype)) {
-        subscriptionList.push(topic.name);
-      }
+  // Let the renderer know which topics can be shown in the settings sidebar
+  useEffect(() => renderer?.setTopics(renderableTopics), [renderer, renderableTopics]);
 
-      // TODO: Allow disabling of subscriptions to other topics
-      if (MARKER_DATATYPES.has(topic.datatype) || MARKER_ARRAY_DATATYPES.has(topic.datatype)) {
-        subscriptionList.push(topic.name);
-      }
+  // Build a list of topics to subscribe to, skipping topics the user has hidden.
+  // Hidden image topics are still subscribed when a camera or depth cloud uses them
+  const topicsToSubscribe = useMemo(() => {
+    if (!topics) {
+      return undefined;
     }
-
-    return subscriptionList;
-  }, [topics]);
+    const pairedTopics = pairedImageTopics(topicsConfig);
+    return renderableTopics
+      .filter(
+        (topic) =>
+          isTopicVisible(topicsConfig, topic.name, isImageDatatype(topic.datatype)) ||
+          pairedTopics.has(topic.name),
+      )
+      .map((topic) => topic.name);
+  }, [topics, renderableTopics, topicsConfig]);
+  const subscribedTopics = useRef(new Set<string>());
 
   // Notify the extension context when our subscription list changes
   useEffect(() => {
     if (!topicsToSubscribe) return;
     console.info(`[ThreeDeePanel] Subscribing to [${topicsToSubscribe.join(", ")}]`);
+    subscribedTopics.current = new Set(topicsToSubscribe);
     context.subscribe(topicsToSubscribe);
   }, [topicsToSubscribe]);
 
@@ -233,6 +342,43 @@ export function ThreeDeePanel({ context }: { context: PanelExtensionContext }):
     }
   }, [currentTime, renderer]);
 
+  // Persist config changes to the layout. Saving is debounced since camera
+  // movement changes the config on every mouse move
+  useEffect(() => {
+    if (!renderer) {
+      return;
+    }
+
+    let timeout: ReturnType<typeof setTimeout> | undefined;
+    const onConfigChange = (config: ThreeDeeConfig) => {
+      configRef.current = config;
+      setTopicsConfig(config.topics);
+      if (timeout != undefined) {
+        clearTimeout(timeout);
+      }
+      timeout = setTimeout(() => {
+        timeout = undefined;
+        context.saveState(config);
+      }, SAVE_STATE_DEBOUNCE_MS);
+    };
+
+    renderer.addListener("configChange", onConfigChange);
+    return () => {
+      renderer.removeListener("configChange", onConfigChange);
+      // Flush any pending save
+      if (timeout != undefined) {
+        clearTimeout(timeout);
+        context.saveState(renderer.config);
+      }
+    };
+  }, [context, renderer]);
+
+  useEffect(() => {
+    if (parameters && renderer) {
+      renderer.setParameters(parameters);
+    }
+  }, [parameters, renderer]);
+
   useEffect(() => {
     if (colorScheme && renderer) {
       renderer.setColorScheme(colorScheme);
@@ -246,28 +392,127 @@ export function ThreeDeePanel({ context }: { context: PanelExtensionContext }):
     for (const message of messages) {
       const datatype = topicsToDatatypes.get(message.topic);
       if (!datatype) continue;
+      // Ignore any messages that arrive for hidden topics before unsubscribing takes effect
+      if (!subscribedTopics.current.has(message.topic)) {
+        continue;
+      }
 
-      if (TF_DATATYPES.has(datatype)) {
-        // tf2_msgs/TFMessage - Ingest the list of transforms into our TF tree
-        const tfMessage = message.message as { transforms: TF[] };
-        for (const tf of tfMessage.transforms) {
-          renderer.addTransformMessage(tf);
-        }
-      } else if (TRANSFORM_STAMPED_DATATYPES.has(datatype)) {
-        // geometry_msgs/TransformStamped - Ingest this single transform into our TF tree
-        const tf = message.message as TF;
-        renderer.addTransformMessage(tf);
-      } else if (MARKER_ARRAY_DATATYPES.has(datatype)) {
-        // visualization_msgs/MarkerArray - Ingest the list of markers
-        const markerArray = message.message as { markers: Marker[] };
-        for (const marker of markerArray.markers) {
+      // Convert ROS 2, protobuf and JSON time fields into ROS 1 style times,
+      // then ingest the message. Messages that are malformed or fail to be
+      // ingested are reported on the topic and skipped
+      try {
+        const msg = normalizeMessage(datatype, message.message);
+
+        if (TF_DATATYPES.has(datatype)) {
+          // tf2_msgs/TFMessage - Ingest the list of transforms into our TF tree.
+          // Transforms on /tf_static are valid at any time and never expire
+          const tfMessage = msg as { transforms: TF[] };
+          const isStatic = isStaticTransformTopic(message.topic);
+          for (const tf of tfMessage.transforms) {
+            renderer.addTransformMessage(message.topic, tf, isStatic);
+          }
+        } else if (TRANSFORM_STAMPED_DATATYPES.has(datatype)) {
+          // geometry_msgs/TransformStamped - Ingest this single transform into our TF tree
+          const tf = msg as TF;
+          renderer.addTransformMessage(message.topic, tf);
+        } else if (MARKER_ARRAY_DATATYPES.has(datatype)) {
+          // visualization_msgs/MarkerArray - Ingest the list of markers
+          const markerArray = msg as { markers: Marker[] };
+          for (const marker of markerArray.markers) {
+            renderer.addMarkerMessage(message.topic, marker);
+          }
+        } else if (MARKER_DATATYPES.has(datatype)) {
+          // visualization_msgs/Marker - Ingest this single marker
+          const marker = msg as Marker;
           renderer.addMarkerMessage(message.topic, marker);
+        } else if (POINTCLOUD_DATATYPES.has(datatype)) {
+          // sensor_msgs/PointCloud2 - Ingest this point cloud
+          const pointCloud = msg as PointCloud2;
+          renderer.addPointCloud2Message(message.topic, pointCloud);
+        } else if (LASERSCAN_DATATYPES.has(datatype)) {
+          // sensor_msgs/LaserScan - Ingest this laser scan
+          const laserScan = msg as LaserScan;
+          renderer.addLaserScanMessage(message.topic, laserScan);
+        } else if (OCCUPANCY_GRID_DATATYPES.has(datatype)) {
+          // nav_msgs/OccupancyGrid - Ingest this occupancy grid
+          const occupancyGrid = msg as OccupancyGrid;
+          renderer.addOccupancyGridMessage(message.topic, occupancyGrid);
+        } else if (OCCUPANCY_GRID_UPDATE_DATATYPES.has(datatype)) {
+          // map_msgs/OccupancyGridUpdate - Apply this partial update to its occupancy grid
+          const update = msg as OccupancyGridUpdate;
+          renderer.addOccupancyGridUpdateMessage(message.topic, update);
+        } else if (POSE_STAMPED_DATATYPES.has(datatype)) {
+          // geometry_msgs/PoseStamped - Ingest this pose
+          const poseStamped = msg as PoseStamped;
+          renderer.addPoseStampedMessage(message.topic, poseStamped);
+        } else if (POSE_ARRAY_DATATYPES.has(datatype)) {
+          // geometry_msgs/PoseArray - Ingest this list of poses
+          const poseArray = msg as PoseArray;
+          renderer.addPoseArrayMessage(message.topic, poseArray);
+        } else if (POSE_WITH_COVARIANCE_STAMPED_DATATYPES.has(datatype)) {
+          // geometry_msgs/PoseWithCovarianceStamped - Ingest this pose and its uncertainty
+          const poseWithCovariance = msg as PoseWithCovarianceStamped;
+          renderer.addPoseWithCovarianceStampedMessage(message.topic, poseWithCovariance);
+        } else if (PATH_DATATYPES.has(datatype)) {
+          // nav_msgs/Path - Ingest this path
+          const path = msg as Path;
+          renderer.addPathMessage(message.topic, path);
+        } else if (ODOMETRY_DATATYPES.has(datatype)) {
+          // nav_msgs/Odometry - Ingest this odometry and add it to the trail
+          const odometry = msg as Odometry;
+          renderer.addOdometryMessage(message.topic, odometry);
+        } else if (FRAME_TRANSFORMS_DATATYPES.has(datatype)) {
+          // foxglove.FrameTransforms - Ingest the list of transforms into our TF tree
+          const frameTransforms = msg as FrameTransforms;
+          for (const frameTransform of frameTransforms.transforms) {
+            renderer.addFrameTransformMessage(message.topic, frameTransform);
+          }
+        } else if (FRAME_TRANSFORM_DATATYPES.has(datatype)) {
+          // foxglove.FrameTransform - Ingest this single transform into our TF tree
+          const frameTransform = msg as FrameTransform;
+          renderer.addFrameTransformMessage(message.topic, frameTransform);
+        } else if (SCENE_UPDATE_DATATYPES.has(datatype)) {
+          // foxglove.SceneUpdate - Apply the entity deletions and updates
+          const sceneUpdate = msg as SceneUpdate;
+          renderer.addSceneUpdateMessage(message.topic, sceneUpdate);
+        } else if (FOXGLOVE_POINTCLOUD_DATATYPES.has(datatype)) {
+          // foxglove.PointCloud - Ingest this point cloud
+          const pointCloud = msg as PointCloud;
+          renderer.addPointCloudMessage(message.topic, pointCloud);
+        } else if (GRID_DATATYPES.has(datatype)) {
+          // foxglove.Grid - Ingest this grid
+          const grid = msg as Grid;
+          renderer.addGridMessage(message.topic, grid);
+        } else if (POSES_IN_FRAME_DATATYPES.has(datatype)) {
+          // foxglove.PosesInFrame - Ingest this list of poses
+          const posesInFrame = msg as PosesInFrame;
+          renderer.addPosesInFrameMessage(message.topic, posesInFrame);
+        } else if (ROBOT_DESCRIPTION_DATATYPES.has(datatype)) {
+          // std_msgs/String - Ingest this robot description (URDF)
+          const robotDescription = msg as StdString;
+          renderer.addRobotDescriptionMessage(message.topic, robotDescription);
+        } else if (JOINT_STATE_DATATYPES.has(datatype)) {
+          // sensor_msgs/JointState - Compute link transforms for the robot model
+          const jointState = msg as JointState;
+          renderer.addJointStateMessage(message.topic, jointState);
+        } else if (CAMERA_INFO_DATATYPES.has(datatype)) {
+          // sensor_msgs/CameraInfo - Ingest this camera frustum
+          const cameraInfo = msg as CameraInfo;
+          renderer.addCameraInfoMessage(message.topic, cameraInfo);
+        } else if (IMAGE_DATATYPES.has(datatype)) {
+          // sensor_msgs/Image - Keep this image for any camera it is paired with
+          const image = msg as Image;
+          renderer.addImageMessage(message.topic, image);
+        } else if (COMPRESSED_IMAGE_DATATYPES.has(datatype)) {
+          // sensor_msgs/CompressedImage - Keep this image for any camera it is paired with
+          const image = msg as CompressedImage;
+          renderer.addCompressedImageMessage(message.topic, image);
         }
-      } else if (MARKER_DATATYPES.has(datatype)) {
-        // visualization_msgs/Marker - Ingest this single marker
-        const marker = message.message as Marker;
-        renderer.addMarkerMessage(message.topic, marker);
+      } catch (err) {
+        renderer.topicErrors.add(message.topic, MALFORMED_MESSAGE, (err as Error).message);
+        continue;
       }
+      renderer.topicErrors.remove(message.topic, MALFORMED_MESSAGE);
     }
   }, [messages, topicsToDatatypes]);
 
@@ -290,6 +535,47 @@ export function initThreeDeePanel(context: PanelExtensionContext) {
   ReactDOM.render(<ThreeDeePanel context={context} />, context.panelElement);
 }
 
+function isRenderableTopic(topic: Topic): boolean {
+  // Only string topics that carry a robot description are rendered
+  if (ROBOT_DESCRIPTION_DATATYPES.has(topic.datatype)) {
+    return topic.name.endsWith("robot_description");
+  }
+  return isRenderableDatatype(topic.datatype);
+}
+
+// Matches /tf_static as well as namespaced topics such as /robot1/tf_static
+function isStaticTransformTopic(topic: string): boolean {
+  return topic === "tf_static" || topic.endsWith("/tf_static");
+}
+
+function isRenderableDatatype(datatype: string): boolean {
+  return (
+    TF_DATATYPES.has(datatype) ||
+    TRANSFORM_STAMPED_DATATYPES.has(datatype) ||
+    MARKER_DATATYPES.has(datatype) ||
+    MARKER_ARRAY_DATATYPES.has(datatype) ||
+    POINTCLOUD_DATATYPES.has(datatype) ||
+    LASERSCAN_DATATYPES.has(datatype) ||
+    OCCUPANCY_GRID_DATATYPES.has(datatype) ||
+    OCCUPANCY_GRID_UPDATE_DATATYPES.has(datatype) ||
+    POSE_STAMPED_DATATYPES.has(datatype) ||
+    POSE_ARRAY_DATATYPES.has(datatype) ||
+    POSE_WITH_COVARIANCE_STAMPED_DATATYPES.has(datatype) ||
+    PATH_DATATYPES.has(datatype) ||
+    ODOMETRY_DATATYPES.has(datatype) ||
+    FRAME_TRANSFORM_DATATYPES.has(datatype) ||
+    FRAME_TRANSFORMS_DATATYPES.has(datatype) ||
+    SCENE_UPDATE_DATATYPES.has(datatype) ||
+    FOXGLOVE_POINTCLOUD_DATATYPES.has(datatype) ||
+    GRID_DATATYPES.has(datatype) ||
+    POSES_IN_FRAME_DATATYPES.has(datatype) ||
+    JOINT_STATE_DATATYPES.has(datatype) ||
+    CAMERA_INFO_DATATYPES.has(datatype) ||
+    IMAGE_DATATYPES.has(datatype) ||
+    COMPRESSED_IMAGE_DATATYPES.has(datatype)
+  );
+}
+
 function getCurrentTime(currentFrame: readonly MessageEvent<unknown>[]): bigint | undefined {
   if (currentFrame.length === 0) return undefined;
 
@@ -1,5 +1,10 @@
+import EventEmitter from "eventemitter3";
 
-export class TopicErrors {
+export type TopicErrorsEvents = {
+  update: (topic: string) => void;
+};
+
+export class TopicErrors extends EventEmitter<TopicErrorsEvents> {
   errors = new Map<string, Map<string, string>>(); // topic -> {errorId -> errorMessage}
 
   add(topic: string, errorId: string, errorMessage: string): void {
@@ -8,22 +13,38 @@ export class TopicErrors {
       topicErrors = new Map();
       this.errors.set(topic, topicErrors);
     }
-    topicErrors.set(errorId, errorMessage);
-    console.warn(`[TopicError][${topic}] ${errorId}: ${errorMessage}`);
+    // Only log and notify for new errors, since invalid messages often repeat
+    // at the topic rate
+    if (topicErrors.get(errorId) !== errorMessage) {
+      topicErrors.set(errorId, errorMessage);
+      console.warn(`[TopicError][${topic}] ${errorId}: ${errorMessage}`);
+      this.emit("update", topic);
+    }
+  }
+
+  /** Returns true if the topic has any errors */
+  hasErrors(topic: string): boolean {
+    return (this.errors.get(topic)?.size ?? 0) > 0;
   }
 
   remove(topic: string, errorId: string): void {
     const topicErrors = this.errors.get(topic);
-    if (topicErrors) {
-      topicErrors.delete(errorId);
+    if (topicErrors?.delete(errorId) === true) {
+      this.emit("update", topic);
     }
   }
 
   clearTopic(topic: string): void {
-    this.errors.delete(topic);
+    if (this.errors.delete(topic)) {
+      this.emit("update", topic);
+    }
   }
 
   clear(): void {
+    const topics = Array.from(this.errors.keys());
     this.errors.clear();
+    for (const topic of topics) {
+      this.emit("update", topic);
+    }
   }
 }
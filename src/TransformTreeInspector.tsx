@@ -0,0 +1,314 @@
+import { css } from "@emotion/css";
+import { useEffect, useState } from "react";
+
+import { Renderer } from "./Renderer";
+import { useRenderer, useRendererEvent } from "./RendererContext";
+import { overlayClassName, overlaySummaryRow } from "./overlayStyles";
+import { LookupFailureReason, TransformLookupFailure } from "./transforms";
+import { toSec } from "./transforms/time";
+
+const REFRESH_INTERVAL_MS = 1000;
+// A dynamic frame is stale when it has not been updated for this many periods
+// of its publishing rate, and at least MIN_STALE_AGE seconds
+const STALE_PERIODS = 5;
+const MIN_STALE_AGE = 1; // [s]
+
+const inspector = css`
+  width: 320px;
+`;
+
+const header = css`
+  display: flex;
+  align-items: center;
+  justify-content: space-between;
+  font-weight: bold;
+`;
+
+const nested = css`
+  padding-left: 12px;
+`;
+
+const summary = css`
+  cursor: pointer;
+`;
+
+const frameButton = css`
+  background: none;
+  border: none;
+  padding: 0;
+  color: inherit;
+  font: inherit;
+  cursor: pointer;
+  text-align: left;
+`;
+
+const selectedFrame = css`
+  font-weight: bold;
+`;
+
+const details = css`
+  font-size: 10px;
+  opacity: 0.75;
+`;
+
+const warning = css`
+  color: #f5a442;
+`;
+
+type Props = {
+  colorScheme: "dark" | "light" | undefined;
+};
+
+type FrameInfo = {
+  id: string;
+  parentId: string | undefined;
+  isStatic: boolean;
+  /** Transforms per second over the buffered history */
+  rate: number | undefined;
+  newestTime: bigint | undefined;
+  /** Seconds from the newest transform to the current time */
+  age: number | undefined;
+  transformCount: number;
+  stale: boolean;
+  /** Extrapolation failure at this frame in the latest rendered frame */
+  extrapolation: TransformLookupFailure | undefined;
+};
+
+type FrameTree = {
+  children: Map<string, FrameInfo[]>;
+  roots: FrameInfo[];
+};
+
+/**
+ * A collapsible overlay that lists the transform tree hierarchy with the
+ * publishing statistics of each frame, to help find why a frame is not
+ * connected. Frames outside of the render frame tree and frames that stopped
+ * receiving transforms are highlighted. Clicking a frame makes it the render
+ * frame, and the focus button moves the camera to it.
+ */
+export function TransformTreeInspector(props: Props): JSX.Element {
+  const renderer = useRenderer();
+  const [open, setOpen] = useState(false);
+  const [tree, setTree] = useState<FrameTree | undefined>();
+
+  // Ages change continuously, so refresh on an interval while open rather
+  // than on every rendered frame
+  useEffect(() => {
+    if (!open || !renderer) {
+      return;
+    }
+    setTree(buildFrameTree(renderer));
+    const handle = setInterval(() => setTree(buildFrameTree(renderer)), REFRESH_INTERVAL_MS);
+    return () => clearInterval(handle);
+  }, [open, renderer]);
+
+  useRendererEvent("transformTreeUpdated", () => {
+    if (open && renderer) {
+      setTree(buildFrameTree(renderer));
+    }
+  });
+
+  return (
+    <div className={`${overlayClassName(props.colorScheme)} ${open ? inspector : ""}`}>
+      <div className={header}>
+        {open ? "Transforms" : undefined}
+        <button
+          onClick={() => setOpen(!open)}
+          title={open ? "Hide transform tree" : "Show transform tree"}
+        >
+          {open ? "‹" : "TF ›"}
+        </button>
+      </div>
+      {open && renderer && tree ? <FrameTreeView renderer={renderer} tree={tree} /> : undefined}
+    </div>
+  );
+}
+
+// The tree containing the render frame is listed first, followed by the
+// disconnected trees
+function FrameTreeView(props: { renderer: Renderer; tree: FrameTree }): JSX.Element {
+  const { renderer, tree } = props;
+  const renderFrameId = renderer.renderFrameId;
+  const connectedRootId =
+    renderFrameId != undefined ? renderer.transformTree.frame(renderFrameId)?.root().id : undefined;
+  const connectedRoots = tree.roots.filter((root) => root.id === connectedRootId);
+  const disconnectedRoots = tree.roots.filter((root) => root.id !== connectedRootId);
+
+  const nodeProps = {
+    tree,
+    renderFrameId,
+    onSelect: (frameId: string) => renderer.setFrames(frameId, renderer.config.fixedFrameId),
+    onFocus: (frameId: string) => renderer.focusFrame(frameId),
+  };
+
+  return (
+    <>
+      {connectedRoots.map((root) => (
+        <FrameNode key={root.id} frame={root} {...nodeProps} />
+      ))}
+      {disconnectedRoots.length > 0 ? (
+        <div className={warning} title="Not connected to the render frame">
+          Disconnected
+        </div>
+      ) : undefined}
+      {disconnectedRoots.map((root) => (
+        <FrameNode key={root.id} frame={root} disconnected {...nodeProps} />
+      ))}
+    </>
+  );
+}
+
+function FrameNode(props: {
+  frame: FrameInfo;
+  tree: FrameTree;
+  renderFrameId: string | undefined;
+  disconnected?: boolean;
+  onSelect: (frameId: string) => void;
+  onFocus: (frameId: string) => void;
+}): JSX.Element {
+  const { frame, tree, renderFrameId, disconnected = false, onSelect, onFocus } = props;
+  const children = tree.children.get(frame.id) ?? [];
+  const highlight = disconnected || frame.stale || frame.extrapolation != undefined;
+
+  const row = (
+    <span className={overlaySummaryRow}>
+      <button
+        className={`${frameButton} ${frame.id === renderFrameId ? selectedFrame : ""} ${
+          highlight ? warning : ""
+        }`}
+        title="Use as render frame"
+        onClick={(event) => {
+          event.preventDefault();
+          onSelect(frame.id);
+        }}
+      >
+        {frame.id}
+      </button>
+      <button
+        title="Focus camera on this frame"
+        onClick={(event) => {
+          event.preventDefault();
+          onFocus(frame.id);
+        }}
+      >
+        ⌖
+      </button>
+    </span>
+  );
+  const info = (
+    <div className={`${details} ${frame.stale || frame.extrapolation ? warning : ""}`}>
+      {frameDetails(frame)}
+    </div>
+  );
+
+  if (children.length === 0) {
+    return (
+      <div>
+        {row}
+        {info}
+      </div>
+    );
+  }
+
+  return (
+    <details open>
+      <summary className={summary}>{row}</summary>
+      {info}
+      <div className={nested}>
+        {children.map((child) => (
+          <FrameNode key={child.id} {...props} frame={child} />
+        ))}
+      </div>
+    </details>
+  );
+}
+
+// A single line summary such as "parent: map · 10 Hz · stamp 12.345 · age 0.1s · 100 samples"
+function frameDetails(frame: FrameInfo): string {
+  if (frame.parentId == undefined) {
+    return "root";
+  }
+  const parts = [`parent: ${frame.parentId}`];
+  if (frame.isStatic) {
+    parts.push("static");
+  } else if (frame.rate != undefined) {
+    parts.push(`${Number(frame.rate.toPrecision(3))} Hz`);
+  }
+  if (frame.newestTime != undefined) {
+    parts.push(`stamp ${toSec(frame.newestTime).toFixed(3)}`);
+  }
+  if (frame.age != undefined && !frame.isStatic) {
+    parts.push(`age ${frame.age.toFixed(1)}s${frame.stale ? " (stale)" : ""}`);
+  }
+  parts.push(`${frame.transformCount} sample${frame.transformCount === 1 ? "" : "s"}`);
+  if (frame.extrapolation) {
+    parts.push(extrapolationDetails(frame.extrapolation));
+  }
+  return parts.join(" · ");
+}
+
+// The topic errors leave out the extrapolation delta so their messages stay
+// the same from frame to frame, so show it here, e.g. "lookup 1.2s after newest"
+function extrapolationDetails(failure: TransformLookupFailure): string {
+  const delta = Number(toSec(failure.delta ?? 0n).toPrecision(2));
+  return failure.reason === LookupFailureReason.ExtrapolationPast
+    ? `lookup ${delta}s before oldest`
+    : `lookup ${delta}s after newest`;
+}
+
+function buildFrameTree(renderer: Renderer): FrameTree {
+  const currentTime = renderer.currentTime;
+  const children = new Map<string, FrameInfo[]>();
+  const roots: FrameInfo[] = [];
+
+  const sortedFrames = Array.from(renderer.transformTree.frames().values()).sort((a, b) =>
+    a.id.localeCompare(b.id),
+  );
+  for (const frame of sortedFrames) {
+    const parentId = frame.parent()?.id;
+    const isStatic = frame.isStatic();
+    const count = frame.transformCount();
+    const newestTime = frame.newestTime();
+    const oldestTime = frame.oldestTime();
+
+    let rate: number | undefined;
+    if (!isStatic && count > 1 && newestTime != undefined && oldestTime != undefined) {
+      const duration = toSec(newestTime - oldestTime);
+      rate = duration > 0 ? (count - 1) / duration : undefined;
+    }
+    const age =
+      currentTime != undefined && newestTime != undefined
+        ? toSec(currentTime - newestTime)
+        : undefined;
+    const staleAge = Math.max(MIN_STALE_AGE, rate != undefined ? STALE_PERIODS / rate : 0);
+    const stale = !isStatic && age != undefined && age > staleAge;
+
+    const failure = renderer.transformTree.lookupFailures.get(frame.id);
+    const extrapolation =
+      failure?.reason === LookupFailureReason.ExtrapolationPast ||
+      failure?.reason === LookupFailureReason.ExtrapolationFuture
+        ? failure
+        : undefined;
+
+    const info: FrameInfo = {
+      id: frame.id,
+      parentId,
+      isStatic,
+      rate,
+      newestTime,
+      age,
+      transformCount: count,
+      stale,
+      extrapolation,
+    };
+    if (parentId == undefined) {
+      roots.push(info);
+    } else {
+      const siblings = children.get(parentId) ?? [];
+      siblings.push(info);
+      children.set(parentId, siblings);
+    }
+  }
+
+  return { children, roots };
+}
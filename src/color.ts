@@ -1,5 +1,6 @@
 import * as THREE from "three";
 import { clamp } from "three/src/math/MathUtils";
+
 import { approxEquals, uint8Equals } from "./math";
 import { ColorRGBA } from "./ros";
 
@@ -26,6 +27,19 @@ export function rgbaToHexString(color: ColorRGBA): string {
   return ("00000000" + rgba.toString(16)).slice(-8);
 }
 
+/** Parse a "#rrggbb" hex string into sRGB components in [0, 1] */
+export function hexStringToRgb(hex: string): ColorRGB | undefined {
+  const match = /^#?([0-9a-f]{2})([0-9a-f]{2})([0-9a-f]{2})$/i.exec(hex);
+  if (!match) {
+    return undefined;
+  }
+  return {
+    r: parseInt(match[1]!, 16) / 255,
+    g: parseInt(match[2]!, 16) / 255,
+    b: parseInt(match[3]!, 16) / 255,
+  };
+}
+
 export function rgbEqual(a: ColorRGB, b: ColorRGB): boolean {
   return uint8Equals(a.r, b.r) && uint8Equals(a.g, b.g) && uint8Equals(a.b, b.b);
 }
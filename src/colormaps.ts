@@ -0,0 +1,69 @@
+import * as THREE from "three";
+
+export type ColorMapName = "turbo" | "rainbow" | "grayscale";
+
+export const COLOR_MAP_NAMES: ReadonlyArray<ColorMapName> = ["turbo", "rainbow", "grayscale"];
+
+const LUT_SIZE = 256;
+const lookupTables = new Map<ColorMapName, Float32Array>();
+const tempColor = new THREE.Color();
+
+/**
+ * Returns a lookup table of `LUT_SIZE` linear RGB colors for the given color
+ * map, so per-point coloring does not need to evaluate the color map or
+ * convert from sRGB for every point.
+ */
+export function colorMapLookupTable(name: ColorMapName): Float32Array {
+  let lut = lookupTables.get(name);
+  if (!lut) {
+    lut = new Float32Array(LUT_SIZE * 3);
+    for (let i = 0; i < LUT_SIZE; i++) {
+      colorMapSrgb(name, i / (LUT_SIZE - 1), tempColor).convertSRGBToLinear();
+      lut[i * 3 + 0] = tempColor.r;
+      lut[i * 3 + 1] = tempColor.g;
+      lut[i * 3 + 2] = tempColor.b;
+    }
+    lookupTables.set(name, lut);
+  }
+  return lut;
+}
+
+/** Index into a color map lookup table for `value` normalized to [min, max] */
+export function colorMapIndex(value: number, min: number, max: number): number {
+  const t = max > min && isFinite(value) ? (value - min) / (max - min) : 0;
+  return Math.round(THREE.MathUtils.clamp(t, 0, 1) * (LUT_SIZE - 1)) * 3;
+}
+
+function colorMapSrgb(name: ColorMapName, t: number, output: THREE.Color): THREE.Color {
+  switch (name) {
+    case "turbo":
+      return turbo(t, output);
+    case "rainbow":
+      // Blue (low) to red (high), matching RViz
+      return output.setHSL(((1 - t) * 240) / 360, 1, 0.5);
+    case "grayscale":
+      return output.setRGB(t, t, t);
+  }
+}
+
+// Polynomial approximation of the Turbo color map
+// <https://ai.googleblog.com/2019/08/turbo-improved-rainbow-colormap-for.html>
+function turbo(t: number, output: THREE.Color): THREE.Color {
+  const r =
+    0.13572138 +
+    t *
+      (4.6153926 + t * (-42.66032258 + t * (132.13108234 + t * (-152.94239396 + t * 59.28637943))));
+  const g =
+    0.09140261 +
+    t * (2.19418839 + t * (4.84296658 + t * (-14.18503333 + t * (4.27729857 + t * 2.82956604))));
+  const b =
+    0.1066733 +
+    t *
+      (12.64194608 +
+        t * (-60.58204836 + t * (110.36276771 + t * (-89.90310912 + t * 27.34824973))));
+  return output.setRGB(
+    THREE.MathUtils.clamp(r, 0, 1),
+    THREE.MathUtils.clamp(g, 0, 1),
+    THREE.MathUtils.clamp(b, 0, 1),
+  );
+}
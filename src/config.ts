@@ -0,0 +1,379 @@
+import { ColorMapName } from "./colormaps";
+
+/**
+ * Persisted panel configuration. This is written to the layout with
+ * `PanelExtensionContext.saveState()` and read back from `initialState`.
+ *
+ * When adding or changing fields, bump `CONFIG_VERSION` and add a migration
+ * to `MIGRATIONS` that upgrades the previous version. New optional fields
+ * that have a sensible default only need a default in `normalizeConfig()`.
+ */
+
+export const CONFIG_VERSION = 1;
+
+export type Vec3Tuple = [x: number, y: number, z: number];
+
+export type CameraState = {
+  /** Camera position in the render frame */
+  position: Vec3Tuple;
+  /** Point the camera orbits around and looks at, in the render frame */
+  target: Vec3Tuple;
+};
+
+export type GridConfig = {
+  /** Defaults to true */
+  visible?: boolean;
+  /** Width and height of the grid in meters */
+  size?: number;
+  /** Number of cells along each side of the grid */
+  divisions?: number;
+  /** Line color as a "#rrggbb" hex string, or undefined to follow the color scheme */
+  color?: string;
+};
+
+export type LightingConfig = {
+  directionalIntensity?: number;
+  ambientIntensity?: number;
+  /** Whether meshes cast shadows from the directional light. Defaults to true */
+  shadows?: boolean;
+};
+
+export type SceneConfig = {
+  /** Background color as a "#rrggbb" hex string, or undefined to follow the color scheme */
+  backgroundColor?: string;
+  grid?: GridConfig;
+  lighting?: LightingConfig;
+};
+
+export type FrameAxesConfig = {
+  /** Whether an axis is drawn at the origin of each coordinate frame. Defaults to true */
+  visible?: boolean;
+  /** Length of each axis in meters */
+  axisLength?: number;
+};
+
+export type TransformBufferConfig = {
+  /** Seconds of transform history kept for each frame */
+  bufferLength?: number;
+  /** Maximum number of transforms kept for each frame, regardless of their age */
+  maxSamples?: number;
+};
+
+export type TransformsConfig = TransformBufferConfig & {
+  /** Buffer settings for individual frames, keyed by frame id */
+  frames?: Record<string, TransformBufferConfig | undefined>;
+};
+
+export type MarkerNamespaceConfig = {
+  /** Whether markers in this namespace are rendered. Defaults to true */
+  visible?: boolean;
+  /** Marker ids within this namespace that are hidden */
+  hiddenIds?: number[];
+};
+
+export type PointCloudColorMode = "flat" | "colormap" | "rgb" | "rgba";
+
+export type PointCloudConfig = {
+  /** Point size in pixels */
+  pointSize?: number;
+  /** Defaults to "rgb" or "rgba" if the cloud has a packed color field, otherwise "colormap" */
+  colorMode?: PointCloudColorMode;
+  /** Color used for the "flat" color mode as a "#rrggbb" hex string */
+  flatColor?: string;
+  /** Field used for the "colormap" color mode, such as "intensity" or "z" */
+  colorField?: string;
+  colorMap?: ColorMapName;
+  /** Field value mapped to the start of the color map. Defaults to the minimum in each message */
+  minValue?: number;
+  /** Field value mapped to the end of the color map. Defaults to the maximum in each message */
+  maxValue?: number;
+};
+
+export type OccupancyGridColorScheme = "map" | "costmap" | "raw";
+
+export type OccupancyGridConfig = {
+  /** Defaults to "map" */
+  colorScheme?: OccupancyGridColorScheme;
+  /** Opacity of the grid in [0, 1] */
+  alpha?: number;
+};
+
+export type PoseDisplayType = "arrow" | "axis";
+
+export type PoseConfig = {
+  /** Defaults to "arrow" */
+  type?: PoseDisplayType;
+  /** Arrow or axis length in meters */
+  size?: number;
+  /** Whether pose covariance is drawn, when the message has one. Defaults to true */
+  showCovariance?: boolean;
+  /** Covariance ellipsoid and cone color as a "#rrggbb" hex string */
+  covarianceColor?: string;
+  /** Number of standard deviations enclosed by the covariance ellipsoid and cone */
+  covarianceScale?: number;
+};
+
+export type PathConfig = {
+  /** Line width in meters */
+  lineWidth?: number;
+  /** Whether an axis is drawn at each pose along the path. Defaults to false */
+  showAxes?: boolean;
+  /** Length of the per-pose axes in meters */
+  axisLength?: number;
+};
+
+export type OdometryTrailMode = "off" | "poses" | "seconds";
+
+export type OdometryConfig = {
+  /** Whether the linear velocity is drawn as an arrow. Defaults to true */
+  showVelocity?: boolean;
+  /** Velocity arrow length in meters per m/s */
+  velocityScale?: number;
+  /** Whether a trail of previous positions is kept, by count or by age. Defaults to "off" */
+  trail?: OdometryTrailMode;
+  /** Number of poses or seconds of history in the trail */
+  trailLength?: number;
+  /** Trail line width in meters */
+  lineWidth?: number;
+};
+
+export type TopicConfig = {
+  /** Whether this topic is subscribed to and rendered. Defaults to true, except for image topics */
+  visible?: boolean;
+  /** Color override for messages on this topic as a "#rrggbb" hex string */
+  color?: string;
+  /** Per-namespace visibility for marker topics, keyed by marker namespace */
+  namespaces?: Record<string, MarkerNamespaceConfig | undefined>;
+  /** Display options for topics drawn as points, such as PointCloud2 and LaserScan */
+  pointCloud?: PointCloudConfig;
+  /** Display options for OccupancyGrid topics */
+  occupancyGrid?: OccupancyGridConfig;
+  /** Display options for pose topics, such as PoseStamped and PoseArray */
+  pose?: PoseConfig;
+  /** Display options for Path topics */
+  path?: PathConfig;
+  /** Display options for Odometry topics. The pose itself uses `pose` */
+  odometry?: OdometryConfig;
+  /** Display options for CameraInfo topics */
+  cameraInfo?: CameraInfoConfig;
+  /** Unprojection options for depth Image topics. The points themselves use `pointCloud` */
+  depthImage?: DepthImageConfig;
+};
+
+export type ThreeDeeConfig = {
+  version: typeof CONFIG_VERSION;
+  cameraState: CameraState;
+  /** User-selected render frame, or undefined to choose automatically */
+  renderFrameId?: string;
+  /** User-selected fixed frame, or undefined to choose automatically */
+  fixedFrameId?: string;
+  scene: SceneConfig;
+  frameAxes: FrameAxesConfig;
+  transforms: TransformsConfig;
+  topics: Record<string, TopicConfig | undefined>;
+};
+
+export const DEFAULT_CAMERA_STATE: Readonly<CameraState> = {
+  position: [1, -3, 1],
+  target: [0, 0, 0],
+};
+
+type UnknownConfig = Record<string, unknown> & { version?: number };
+
+// Each entry upgrades a config from version `key` to version `key + 1`
+const MIGRATIONS: Record<number, (config: UnknownConfig) => UnknownConfig> = {
+  // Version 0 is the unversioned state that only stored the frame selection
+  0: (config) => ({
+    version: 1,
+    renderFrameId: config.renderFrameId,
+    fixedFrameId: config.fixedFrameId,
+  }),
+};
+
+export type CameraInfoConfig = {
+  /** Distance from the camera to the far plane of the frustum in meters */
+  depth?: number;
+  /** Frustum line width in meters */
+  lineWidth?: number;
+  /** Image or CompressedImage topic drawn on the far plane of the frustum */
+  imageTopic?: string;
+  /** Opacity of the image in [0, 1] */
+  imageAlpha?: number;
+};
+
+export type DepthImageConfig = {
+  /** CameraInfo topic of the depth camera. Defaults to the sibling camera_info topic */
+  cameraInfoTopic?: string;
+  /** Image topic registered to the depth image, used to color the points */
+  colorImageTopic?: string;
+  /** Only every `stride`th pixel in each direction is unprojected */
+  stride?: number;
+};
+
+/**
+ * Convert a saved panel state of any version into the current config
+ * version. Unknown or malformed fields are replaced with defaults, so this
+ * never throws on bad input.
+ */
+export function migrateConfig(initialState: unknown): ThreeDeeConfig {
+  let config: UnknownConfig = isObject(initialState) ? { ...initialState } : {};
+  let version = typeof config.version === "number" ? config.version : 0;
+
+  while (version < CONFIG_VERSION) {
+    const migrate = MIGRATIONS[version];
+    if (!migrate) {
+      console.warn(`[config] No migration from config version ${version}, using defaults`);
+      config = {};
+      break;
+    }
+    config = migrate(config);
+    version++;
+  }
+
+  if (version > CONFIG_VERSION) {
+    // Saved by a newer version of this panel. Keep the fields we understand
+    console.warn(`[config] Config version ${version} is newer than ${CONFIG_VERSION}`);
+  }
+
+  return normalizeConfig(config);
+}
+
+/**
+ * Returns false if the user has hidden the topic, otherwise true. Image topics
+ * are hidden until the user shows them, which draws their depth images as
+ * point clouds, since recordings often have many image streams.
+ */
+export function isTopicVisible(
+  topics: ThreeDeeConfig["topics"],
+  topic: string,
+  isImageTopic: boolean,
+): boolean {
+  return topics[topic]?.visible ?? !isImageTopic;
+}
+
+/**
+ * Image topics shown on a visible camera frustum or coloring a visible depth
+ * cloud. These are needed even when the image topic itself is hidden.
+ */
+export function pairedImageTopics(topics: ThreeDeeConfig["topics"]): Set<string> {
+  const imageTopics = new Set<string>();
+  for (const topicConfig of Object.values(topics)) {
+    // CameraInfo topics are visible by default, depth image topics are not
+    const cameraImageTopic = topicConfig?.cameraInfo?.imageTopic;
+    if (cameraImageTopic != undefined && topicConfig?.visible !== false) {
+      imageTopics.add(cameraImageTopic);
+    }
+    const colorImageTopic = topicConfig?.depthImage?.colorImageTopic;
+    if (colorImageTopic != undefined && topicConfig?.visible === true) {
+      imageTopics.add(colorImageTopic);
+    }
+  }
+  return imageTopics;
+}
+
+function normalizeConfig(config: UnknownConfig): ThreeDeeConfig {
+  const topics: Record<string, TopicConfig> = {};
+  if (isObject(config.topics)) {
+    for (const [topic, topicConfig] of Object.entries(config.topics)) {
+      if (isObject(topicConfig)) {
+        topics[topic] = topicConfig as TopicConfig;
+      }
+    }
+  }
+
+  return {
+    version: CONFIG_VERSION,
+    cameraState: normalizeCameraState(config.cameraState),
+    renderFrameId: optionalString(config.renderFrameId),
+    fixedFrameId: optionalString(config.fixedFrameId),
+    scene: isObject(config.scene) ? normalizeSceneConfig(config.scene) : {},
+    frameAxes: isObject(config.frameAxes) ? normalizeFrameAxesConfig(config.frameAxes) : {},
+    transforms: isObject(config.transforms) ? normalizeTransformsConfig(config.transforms) : {},
+    topics,
+  };
+}
+
+function normalizeSceneConfig(scene: Record<string, unknown>): SceneConfig {
+  return {
+    backgroundColor: optionalString(scene.backgroundColor),
+    grid: isObject(scene.grid) ? normalizeGridConfig(scene.grid) : undefined,
+    lighting: isObject(scene.lighting) ? normalizeLightingConfig(scene.lighting) : undefined,
+  };
+}
+
+function normalizeGridConfig(grid: Record<string, unknown>): GridConfig {
+  return {
+    visible: optionalBoolean(grid.visible),
+    size: optionalNumber(grid.size),
+    divisions: optionalNumber(grid.divisions),
+    color: optionalString(grid.color),
+  };
+}
+
+function normalizeLightingConfig(lighting: Record<string, unknown>): LightingConfig {
+  return {
+    directionalIntensity: optionalNumber(lighting.directionalIntensity),
+    ambientIntensity: optionalNumber(lighting.ambientIntensity),
+    shadows: optionalBoolean(lighting.shadows),
+  };
+}
+
+function normalizeFrameAxesConfig(frameAxes: Record<string, unknown>): FrameAxesConfig {
+  return {
+    visible: optionalBoolean(frameAxes.visible),
+    axisLength: optionalNumber(frameAxes.axisLength),
+  };
+}
+
+function normalizeTransformsConfig(transforms: Record<string, unknown>): TransformsConfig {
+  const frames: Record<string, TransformBufferConfig> = {};
+  if (isObject(transforms.frames)) {
+    for (const [frameId, frameConfig] of Object.entries(transforms.frames)) {
+      if (isObject(frameConfig)) {
+        frames[frameId] = normalizeTransformBufferConfig(frameConfig);
+      }
+    }
+  }
+  return { ...normalizeTransformBufferConfig(transforms), frames };
+}
+
+function normalizeTransformBufferConfig(buffer: Record<string, unknown>): TransformBufferConfig {
+  return {
+    bufferLength: optionalNumber(buffer.bufferLength),
+    maxSamples: optionalNumber(buffer.maxSamples),
+  };
+}
+
+function normalizeCameraState(value: unknown): CameraState {
+  if (isObject(value) && isVec3(value.position) && isVec3(value.target)) {
+    return { position: [...value.position], target: [...value.target] };
+  }
+  return {
+    position: [...DEFAULT_CAMERA_STATE.position],
+    target: [...DEFAULT_CAMERA_STATE.target],
+  };
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value != undefined && !Array.isArray(value);
+}
+
+function isVec3(value: unknown): value is Vec3Tuple {
+  return (
+    Array.isArray(value) &&
+    value.length === 3 &&
+    value.every((n) => typeof n === "number" && isFinite(n))
+  );
+}
+
+function optionalString(value: unknown): string | undefined {
+  return typeof value === "string" && value.length > 0 ? value : undefined;
+}
+
+function optionalNumber(value: unknown): number | undefined {
+  return typeof value === "number" && isFinite(value) ? value : undefined;
+}
+
+function optionalBoolean(value: unknown): boolean | undefined {
+  return typeof value === "boolean" ? value : undefined;
+}
@@ -0,0 +1,70 @@
+import { PointField, PointFieldType } from "./ros";
+
+export type FieldReader = (view: DataView, pointOffset: number) => number;
+
+/**
+ * Returns a function that reads the first element of a PointCloud2 field as a
+ * number, given a DataView of the point data and the byte offset of a point.
+ * Returns undefined for unknown field datatypes.
+ */
+export function getFieldReader(field: PointField, isBigEndian: boolean): FieldReader | undefined {
+  const offset = field.offset;
+  const littleEndian = !isBigEndian;
+  switch (field.datatype) {
+    case PointFieldType.INT8:
+      return (view, pointOffset) => view.getInt8(pointOffset + offset);
+    case PointFieldType.UINT8:
+      return (view, pointOffset) => view.getUint8(pointOffset + offset);
+    case PointFieldType.INT16:
+      return (view, pointOffset) => view.getInt16(pointOffset + offset, littleEndian);
+    case PointFieldType.UINT16:
+      return (view, pointOffset) => view.getUint16(pointOffset + offset, littleEndian);
+    case PointFieldType.INT32:
+      return (view, pointOffset) => view.getInt32(pointOffset + offset, littleEndian);
+    case PointFieldType.UINT32:
+      return (view, pointOffset) => view.getUint32(pointOffset + offset, littleEndian);
+    case PointFieldType.FLOAT32:
+      return (view, pointOffset) => view.getFloat32(pointOffset + offset, littleEndian);
+    case PointFieldType.FLOAT64:
+      return (view, pointOffset) => view.getFloat64(pointOffset + offset, littleEndian);
+    default:
+      return undefined;
+  }
+}
+
+/** Size in bytes of a single element of the given field datatype */
+export function fieldTypeSize(datatype: PointFieldType): number {
+  switch (datatype) {
+    case PointFieldType.INT8:
+    case PointFieldType.UINT8:
+      return 1;
+    case PointFieldType.INT16:
+    case PointFieldType.UINT16:
+      return 2;
+    case PointFieldType.INT32:
+    case PointFieldType.UINT32:
+    case PointFieldType.FLOAT32:
+      return 4;
+    case PointFieldType.FLOAT64:
+      return 8;
+    default:
+      return 0;
+  }
+}
+
+/**
+ * Returns a reader for packed "rgb" or "rgba" fields, which store four color
+ * bytes in a FLOAT32 or UINT32 field. The bytes are returned unmodified as a
+ * uint32 in 0xAARRGGBB order.
+ */
+export function getPackedColorReader(
+  field: PointField,
+  isBigEndian: boolean,
+): FieldReader | undefined {
+  if (fieldTypeSize(field.datatype) !== 4) {
+    return undefined;
+  }
+  const offset = field.offset;
+  const littleEndian = !isBigEndian;
+  return (view, pointOffset) => view.getUint32(pointOffset + offset, littleEndian);
+}
@@ -0,0 +1,532 @@
+import * as THREE from "three";
+
+import {
+  ColorRGBA,
+  Marker,
+  MarkerAction,
+  MarkerType,
+  OccupancyGrid,
+  PointCloud2,
+  PointField,
+  PointFieldType,
+  Pose,
+  PoseArray,
+  RosDuration,
+  RosTime,
+  TF,
+  Vector3,
+} from "./ros";
+
+// Foxglove well-known schemas <https://foxglove.dev/docs/studio/messages>,
+// and conversions into the ROS messages the renderables already draw
+
+export enum NumericType {
+  UNKNOWN = 0,
+  UINT8 = 1,
+  INT8 = 2,
+  UINT16 = 3,
+  INT16 = 4,
+  UINT32 = 5,
+  INT32 = 6,
+  FLOAT32 = 7,
+  FLOAT64 = 8,
+}
+
+export enum LineType {
+  LINE_STRIP = 0,
+  LINE_LOOP = 1,
+  LINE_LIST = 2,
+}
+
+export enum SceneEntityDeletionType {
+  MATCHING_ID = 0,
+  ALL = 1,
+}
+
+export type PackedElementField = {
+  name: string;
+  offset: number;
+  type: NumericType;
+};
+
+export type FrameTransform = {
+  timestamp: RosTime;
+  parent_frame_id: string;
+  child_frame_id: string;
+  translation: Vector3;
+  rotation: { x: number; y: number; z: number; w: number };
+};
+
+export type FrameTransforms = {
+  transforms: FrameTransform[];
+};
+
+export type PosesInFrame = {
+  timestamp: RosTime;
+  frame_id: string;
+  poses: Pose[];
+};
+
+export type PointCloud = {
+  timestamp: RosTime;
+  frame_id: string;
+  pose: Pose;
+  point_stride: number;
+  fields: PackedElementField[];
+  data: Uint8Array;
+};
+
+export type Grid = {
+  timestamp: RosTime;
+  frame_id: string;
+  pose: Pose;
+  column_count: number;
+  cell_size: { x: number; y: number };
+  row_stride: number;
+  cell_stride: number;
+  fields: PackedElementField[];
+  data: Uint8Array;
+};
+
+export type ArrowPrimitive = {
+  pose: Pose;
+  shaft_length: number;
+  shaft_diameter: number;
+  head_length: number;
+  head_diameter: number;
+  color: ColorRGBA;
+};
+
+export type CubePrimitive = {
+  pose: Pose;
+  size: Vector3;
+  color: ColorRGBA;
+};
+
+export type SpherePrimitive = CubePrimitive;
+
+export type CylinderPrimitive = CubePrimitive & {
+  bottom_scale: number;
+  top_scale: number;
+};
+
+export type LinePrimitive = {
+  type: LineType;
+  pose: Pose;
+  thickness: number;
+  scale_invariant: boolean;
+  points: Vector3[];
+  color: ColorRGBA;
+  colors: ColorRGBA[];
+  indices: number[];
+};
+
+export type TriangleListPrimitive = {
+  pose: Pose;
+  points: Vector3[];
+  color: ColorRGBA;
+  colors: ColorRGBA[];
+  indices: number[];
+};
+
+export type TextPrimitive = {
+  pose: Pose;
+  billboard: boolean;
+  font_size: number;
+  scale_invariant: boolean;
+  color: ColorRGBA;
+  text: string;
+};
+
+export type ModelPrimitive = {
+  pose: Pose;
+  scale: Vector3;
+  color: ColorRGBA;
+  override_color: boolean;
+  url: string;
+  media_type: string;
+  data: Uint8Array;
+};
+
+export type SceneEntity = {
+  timestamp: RosTime;
+  frame_id: string;
+  id: string;
+  lifetime: RosDuration;
+  frame_locked: boolean;
+  arrows: ArrowPrimitive[];
+  cubes: CubePrimitive[];
+  spheres: SpherePrimitive[];
+  cylinders: CylinderPrimitive[];
+  lines: LinePrimitive[];
+  triangles: TriangleListPrimitive[];
+  texts: TextPrimitive[];
+  models: ModelPrimitive[];
+};
+
+export type SceneEntityDeletion = {
+  timestamp: RosTime;
+  type: SceneEntityDeletionType;
+  id: string;
+};
+
+export type SceneUpdate = {
+  deletions: SceneEntityDeletion[];
+  entities: SceneEntity[];
+};
+
+export const FRAME_TRANSFORM_DATATYPES = new Set<string>(["foxglove.FrameTransform"]);
+export const FRAME_TRANSFORMS_DATATYPES = new Set<string>(["foxglove.FrameTransforms"]);
+export const SCENE_UPDATE_DATATYPES = new Set<string>(["foxglove.SceneUpdate"]);
+export const FOXGLOVE_POINTCLOUD_DATATYPES = new Set<string>(["foxglove.PointCloud"]);
+export const GRID_DATATYPES = new Set<string>(["foxglove.Grid"]);
+export const POSES_IN_FRAME_DATATYPES = new Set<string>(["foxglove.PosesInFrame"]);
+
+// Lines use world-unit widths, so pixel thicknesses are approximated with
+// this many meters per pixel
+const SCALE_INVARIANT_METERS_PER_PIXEL = 0.005;
+
+const tempQuaternion = new THREE.Quaternion();
+const tempVector = new THREE.Vector3();
+
+export function frameTransformToTF(frameTransform: FrameTransform): TF {
+  return {
+    header: { frame_id: frameTransform.parent_frame_id, stamp: frameTransform.timestamp },
+    child_frame_id: frameTransform.child_frame_id,
+    transform: { translation: frameTransform.translation, rotation: frameTransform.rotation },
+  };
+}
+
+export function posesInFrameToPoseArray(posesInFrame: PosesInFrame): PoseArray {
+  return {
+    header: { frame_id: posesInFrame.frame_id, stamp: posesInFrame.timestamp },
+    poses: posesInFrame.poses,
+  };
+}
+
+/**
+ * Convert the primitives of a scene entity into markers. Markers use the
+ * entity id as their namespace and are numbered in primitive order, so an
+ * entity that is republished with the same primitives updates its markers
+ * in place.
+ */
+export function sceneEntityToMarkers(entity: SceneEntity): Marker[] {
+  const markers: Marker[] = [];
+  const add = (
+    type: MarkerType,
+    pose: Pose,
+    scale: Vector3,
+    color: ColorRGBA,
+    extra?: Partial<Marker>,
+  ) => {
+    markers.push({
+      header: { frame_id: entity.frame_id, stamp: entity.timestamp },
+      ns: entity.id,
+      id: markers.length,
+      type,
+      action: MarkerAction.ADD,
+      pose,
+      scale,
+      color,
+      lifetime: entity.lifetime,
+      frame_locked: entity.frame_locked,
+      points: [],
+      colors: [],
+      text: "",
+      mesh_resource: "",
+      mesh_use_embedded_materials: false,
+      ...extra,
+    });
+  };
+
+  for (const arrow of entity.arrows) {
+    // Arrow markers defined by two points take explicit shaft and head sizes.
+    // Points override the marker pose, so place them along the pose x-axis
+    const { position, orientation } = arrow.pose;
+    tempQuaternion.set(orientation.x, orientation.y, orientation.z, orientation.w);
+    tempVector.set(arrow.shaft_length + arrow.head_length, 0, 0).applyQuaternion(tempQuaternion);
+    const end = {
+      x: position.x + tempVector.x,
+      y: position.y + tempVector.y,
+      z: position.z + tempVector.z,
+    };
+    const scale = { x: arrow.shaft_diameter, y: arrow.head_diameter, z: arrow.head_length };
+    add(MarkerType.ARROW, arrow.pose, scale, arrow.color, { points: [position, end] });
+  }
+  for (const cube of entity.cubes) {
+    add(MarkerType.CUBE, cube.pose, cube.size, cube.color);
+  }
+  for (const sphere of entity.spheres) {
+    add(MarkerType.SPHERE, sphere.pose, sphere.size, sphere.color);
+  }
+  for (const cylinder of entity.cylinders) {
+    // Cones and truncated cylinders (bottom_scale, top_scale) are drawn as
+    // straight cylinders
+    add(MarkerType.CYLINDER, cylinder.pose, cylinder.size, cylinder.color);
+  }
+  for (const line of entity.lines) {
+    const points = indexed(line.points, line.indices);
+    const colors = line.colors.length > 0 ? indexed(line.colors, line.indices) : [];
+    if (line.type === LineType.LINE_LOOP && points.length > 0) {
+      points.push(points[0]!);
+      if (colors.length > 0) {
+        colors.push(colors[0]!);
+      }
+    }
+    const width = line.scale_invariant
+      ? line.thickness * SCALE_INVARIANT_METERS_PER_PIXEL
+      : line.thickness;
+    const type = line.type === LineType.LINE_LIST ? MarkerType.LINE_LIST : MarkerType.LINE_STRIP;
+    add(type, line.pose, { x: width, y: 1, z: 1 }, line.color, { points, colors });
+  }
+  for (const triangles of entity.triangles) {
+    const points = indexed(triangles.points, triangles.indices);
+    const colors = triangles.colors.length > 0 ? indexed(triangles.colors, triangles.indices) : [];
+    add(MarkerType.TRIANGLE_LIST, triangles.pose, { x: 1, y: 1, z: 1 }, triangles.color, {
+      points,
+      colors,
+    });
+  }
+  for (const text of entity.texts) {
+    // Text is always drawn facing the camera, and scale-invariant font sizes
+    // are treated as meters
+    add(MarkerType.TEXT_VIEW_FACING, text.pose, { x: 1, y: 1, z: text.font_size }, text.color, {
+      text: text.text,
+    });
+  }
+  for (const model of entity.models) {
+    const url = model.url.length > 0 ? model.url : modelDataUrl(model.data, model.media_type);
+    add(MarkerType.MESH_RESOURCE, model.pose, model.scale, model.color, {
+      mesh_resource: url,
+      mesh_use_embedded_materials: !model.override_color,
+    });
+  }
+
+  return markers;
+}
+
+/**
+ * Convert a foxglove.PointCloud into a PointCloud2. Separate red, green, blue
+ * and alpha fields are packed into an "rgba" field so the cloud can be drawn
+ * with its own colors.
+ */
+export function pointCloudToPointCloud2(pointCloud: PointCloud): PointCloud2 {
+  const { point_stride: stride, data } = pointCloud;
+  const fields: PointField[] = [];
+  for (const field of pointCloud.fields) {
+    const datatype = numericTypeToPointFieldType(field.type);
+    if (datatype != undefined) {
+      fields.push({ name: field.name, offset: field.offset, datatype, count: 1 });
+    }
+  }
+  const count = stride > 0 ? Math.floor(data.byteLength / stride) : 0;
+  const header = { frame_id: pointCloud.frame_id, stamp: pointCloud.timestamp };
+
+  const channel = (name: string) =>
+    pointCloud.fields.find((field) => field.name === name && field.type === NumericType.UINT8);
+  const red = channel("red");
+  const green = channel("green");
+  const blue = channel("blue");
+  const alpha = channel("alpha");
+  if (!red || !green || !blue || fields.some((field) => field.name === "rgba")) {
+    return {
+      header,
+      height: 1,
+      width: count,
+      fields,
+      is_bigendian: false,
+      point_step: stride,
+      row_step: count * stride,
+      data,
+      is_dense: false,
+    };
+  }
+
+  // Append a packed 0xAARRGGBB field to each point
+  const packedStride = stride + 4;
+  const packed = new Uint8Array(count * packedStride);
+  const view = new DataView(packed.buffer);
+  for (let i = 0; i < count; i++) {
+    const src = i * stride;
+    const dst = i * packedStride;
+    packed.set(data.subarray(src, src + stride), dst);
+    const a = alpha ? data[src + alpha.offset]! : 255;
+    const rgba =
+      ((a << 24) |
+        (data[src + red.offset]! << 16) |
+        (data[src + green.offset]! << 8) |
+        data[src + blue.offset]!) >>>
+      0;
+    view.setUint32(dst + stride, rgba, true);
+  }
+  fields.push({ name: "rgba", offset: stride, datatype: PointFieldType.UINT32, count: 1 });
+  return {
+    header,
+    height: 1,
+    width: count,
+    fields,
+    is_bigendian: false,
+    point_step: packedStride,
+    row_step: count * packedStride,
+    data: packed,
+    is_dense: false,
+  };
+}
+
+/**
+ * Convert the first field of a foxglove.Grid into an OccupancyGrid. 8-bit
+ * fields are used as occupancy values directly, wider fields are scaled from
+ * their value range into [0, 100] with non-finite values as unknown (-1).
+ * Returns undefined if the grid has no readable field.
+ */
+export function gridToOccupancyGrid(grid: Grid): OccupancyGrid | undefined {
+  const field = grid.fields.find(
+    (curField) => numericTypeToPointFieldType(curField.type) != undefined,
+  );
+  const width = grid.column_count;
+  if (!field || width <= 0 || grid.row_stride <= 0) {
+    return undefined;
+  }
+  const height = Math.floor(grid.data.byteLength / grid.row_stride);
+  const view = new DataView(grid.data.buffer, grid.data.byteOffset, grid.data.byteLength);
+  const size = numericTypeSize(field.type);
+  const read = numericReader(field.type);
+
+  const raw = new Float64Array(width * height);
+  let min = Number.POSITIVE_INFINITY;
+  let max = Number.NEGATIVE_INFINITY;
+  for (let row = 0; row < height; row++) {
+    for (let col = 0; col < width; col++) {
+      const offset = row * grid.row_stride + col * grid.cell_stride + field.offset;
+      const value = offset + size <= view.byteLength ? read(view, offset) : NaN;
+      raw[row * width + col] = value;
+      if (isFinite(value)) {
+        min = Math.min(min, value);
+        max = Math.max(max, value);
+      }
+    }
+  }
+
+  const data = new Int8Array(width * height);
+  const direct = field.type === NumericType.INT8 || field.type === NumericType.UINT8;
+  const range = max - min;
+  for (let i = 0; i < raw.length; i++) {
+    const value = raw[i]!;
+    if (!isFinite(value)) {
+      data[i] = -1;
+    } else if (direct) {
+      data[i] = value;
+    } else {
+      data[i] = range > 0 ? Math.round(((value - min) / range) * 100) : 0;
+    }
+  }
+
+  return {
+    header: { frame_id: grid.frame_id, stamp: grid.timestamp },
+    info: {
+      map_load_time: grid.timestamp,
+      resolution: grid.cell_size.x,
+      width,
+      height,
+      origin: grid.pose,
+    },
+    data,
+  };
+}
+
+function indexed<T>(values: T[], indices: number[]): T[] {
+  if (indices.length === 0) {
+    return values.slice();
+  }
+  const output: T[] = [];
+  for (const index of indices) {
+    const value = values[index];
+    if (value != undefined) {
+      output.push(value);
+    }
+  }
+  return output;
+}
+
+function numericTypeToPointFieldType(type: NumericType): PointFieldType | undefined {
+  switch (type) {
+    case NumericType.UINT8:
+      return PointFieldType.UINT8;
+    case NumericType.INT8:
+      return PointFieldType.INT8;
+    case NumericType.UINT16:
+      return PointFieldType.UINT16;
+    case NumericType.INT16:
+      return PointFieldType.INT16;
+    case NumericType.UINT32:
+      return PointFieldType.UINT32;
+    case NumericType.INT32:
+      return PointFieldType.INT32;
+    case NumericType.FLOAT32:
+      return PointFieldType.FLOAT32;
+    case NumericType.FLOAT64:
+      return PointFieldType.FLOAT64;
+    default:
+      return undefined;
+  }
+}
+
+function numericTypeSize(type: NumericType): number {
+  switch (type) {
+    case NumericType.UINT8:
+    case NumericType.INT8:
+      return 1;
+    case NumericType.UINT16:
+    case NumericType.INT16:
+      return 2;
+    case NumericType.UINT32:
+    case NumericType.INT32:
+    case NumericType.FLOAT32:
+      return 4;
+    case NumericType.FLOAT64:
+      return 8;
+    default:
+      return 0;
+  }
+}
+
+function numericReader(type: NumericType): (view: DataView, offset: number) => number {
+  switch (type) {
+    case NumericType.UINT8:
+      return (view, offset) => view.getUint8(offset);
+    case NumericType.INT8:
+      return (view, offset) => view.getInt8(offset);
+    case NumericType.UINT16:
+      return (view, offset) => view.getUint16(offset, true);
+    case NumericType.INT16:
+      return (view, offset) => view.getInt16(offset, true);
+    case NumericType.UINT32:
+      return (view, offset) => view.getUint32(offset, true);
+    case NumericType.INT32:
+      return (view, offset) => view.getInt32(offset, true);
+    case NumericType.FLOAT32:
+      return (view, offset) => view.getFloat32(offset, true);
+    case NumericType.FLOAT64:
+      return (view, offset) => view.getFloat64(offset, true);
+    default:
+      return () => NaN;
+  }
+}
+
+// Object URLs for embedded model data, keyed by a hash of the data so a
+// model republished every message is only loaded once
+const modelDataUrls = new Map<string, string>();
+
+function modelDataUrl(data: Uint8Array, mediaType: string): string {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < data.length; i++) {
+    hash = Math.imul(hash ^ data[i]!, 0x01000193);
+  }
+  const key = `${mediaType}:${data.length}:${hash >>> 0}`;
+  let url = modelDataUrls.get(key);
+  if (!url) {
+    url = URL.createObjectURL(new Blob([data], { type: mediaType }));
+    modelDataUrls.set(key, url);
+  }
+  return url;
+}
@@ -0,0 +1,161 @@
+import { CameraInfo, Image } from "./ros";
+
+// Decoding of uncompressed sensor_msgs/Image data and the pinhole camera
+// model of sensor_msgs/CameraInfo. Compressed images are decoded by the
+// browser with createImageBitmap()
+
+export type CameraIntrinsics = {
+  fx: number;
+  fy: number;
+  cx: number;
+  cy: number;
+};
+
+/** Encodings supported by `decodeImage` */
+const BYTES_PER_PIXEL: Record<string, number> = {
+  rgb8: 3,
+  rgba8: 4,
+  bgr8: 3,
+  bgra8: 4,
+  mono8: 1,
+  "8UC1": 1,
+  mono16: 2,
+  "16UC1": 2,
+  "32FC1": 4,
+};
+
+/**
+ * Focal lengths and principal point of a camera in pixels, taken from the
+ * rectified projection matrix `P` when set, otherwise from the raw intrinsic
+ * matrix `K`. Returns undefined if neither has a valid focal length.
+ */
+export function cameraIntrinsics(cameraInfo: CameraInfo): CameraIntrinsics | undefined {
+  const { P, K } = cameraInfo;
+  const usesP = P.length === 12 && P[0] !== 0 && P[5] !== 0;
+  const fx = usesP ? P[0] : K[0];
+  const fy = usesP ? P[5] : K[4];
+  const cx = usesP ? P[2] : K[2];
+  const cy = usesP ? P[6] : K[5];
+  if (fx == undefined || fy == undefined || cx == undefined || cy == undefined) {
+    return undefined;
+  }
+  if (fx === 0 || fy === 0) {
+    return undefined;
+  }
+  return { fx, fy, cx, cy };
+}
+
+/**
+ * Decode `image` into RGBA texels with one byte per channel, row 0 first.
+ * Single channel 16-bit and float images are normalized to the range of
+ * their finite values. Throws an Error if the encoding is not supported or
+ * the data is too short.
+ */
+export function decodeImage(image: Image, output: Uint8Array): void {
+  const { width, height, step, encoding } = image;
+  const bytesPerPixel = checkImageSize(image);
+  if (output.length < width * height * 4) {
+    throw new Error(`Output length ${output.length} is too short for ${width}x${height}`);
+  }
+
+  const data = image.data;
+  switch (encoding) {
+    case "rgb8":
+    case "rgba8":
+    case "bgr8":
+    case "bgra8": {
+      const bgr = encoding.startsWith("bgr");
+      const hasAlpha = bytesPerPixel === 4;
+      for (let row = 0; row < height; row++) {
+        for (let col = 0; col < width; col++) {
+          const src = row * step + col * bytesPerPixel;
+          const dst = (row * width + col) * 4;
+          output[dst + 0] = data[bgr ? src + 2 : src]!;
+          output[dst + 1] = data[src + 1]!;
+          output[dst + 2] = data[bgr ? src : src + 2]!;
+          output[dst + 3] = hasAlpha ? data[src + 3]! : 255;
+        }
+      }
+      break;
+    }
+    case "mono8":
+    case "8UC1":
+      for (let row = 0; row < height; row++) {
+        for (let col = 0; col < width; col++) {
+          writeGray(output, row * width + col, data[row * step + col]!);
+        }
+      }
+      break;
+    default: {
+      // 16-bit and float single channel images
+      const values = readSingleChannel(image);
+      let min = Infinity;
+      let max = -Infinity;
+      for (const value of values) {
+        if (isFinite(value)) {
+          min = Math.min(min, value);
+          max = Math.max(max, value);
+        }
+      }
+      const scale = max > min ? 255 / (max - min) : 0;
+      for (let i = 0; i < values.length; i++) {
+        const value = values[i]!;
+        writeGray(output, i, isFinite(value) ? (value - min) * scale : 0);
+      }
+      break;
+    }
+  }
+}
+
+/**
+ * Read a single channel 16-bit or float image into one number per pixel,
+ * row 0 first. Throws an Error for other encodings.
+ */
+export function readSingleChannel(image: Image): Float32Array {
+  const { width, height, step, encoding } = image;
+  const bytesPerPixel = checkImageSize(image);
+  const bytes = image.data instanceof Uint8Array ? image.data : Uint8Array.from(image.data);
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const littleEndian = image.is_bigendian === 0;
+  const output = new Float32Array(width * height);
+
+  let read: (offset: number) => number;
+  if (encoding === "mono16" || encoding === "16UC1") {
+    read = (offset) => view.getUint16(offset, littleEndian);
+  } else if (encoding === "32FC1") {
+    read = (offset) => view.getFloat32(offset, littleEndian);
+  } else {
+    throw new Error(`Unsupported single channel image encoding "${encoding}"`);
+  }
+
+  for (let row = 0; row < height; row++) {
+    for (let col = 0; col < width; col++) {
+      output[row * width + col] = read(row * step + col * bytesPerPixel);
+    }
+  }
+  return output;
+}
+
+// Returns the bytes per pixel of the image encoding. Throws if the encoding is
+// not supported or the data is too short
+function checkImageSize(image: Image): number {
+  const { width, height, step, encoding } = image;
+  const bytesPerPixel = BYTES_PER_PIXEL[encoding];
+  if (bytesPerPixel == undefined) {
+    throw new Error(`Unsupported image encoding "${encoding}"`);
+  }
+  if (step < width * bytesPerPixel || image.data.length < step * height) {
+    throw new Error(
+      `Image data length ${image.data.length} is too short for ${width}x${height} ${encoding} with step ${step}`,
+    );
+  }
+  return bytesPerPixel;
+}
+
+function writeGray(output: Uint8Array, pixel: number, value: number): void {
+  const i = pixel * 4;
+  output[i + 0] = value;
+  output[i + 1] = value;
+  output[i + 2] = value;
+  output[i + 3] = 255;
+}
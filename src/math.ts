@@ -56,3 +56,75 @@ export function uint8Equals(a: number, b: number): boolean {
   const bi = Math.trunc(b * 255);
   return ai === bi;
 }
+
+/**
+ * Eigen decomposition of a symmetric 3x3 matrix (row-major) using Jacobi
+ * rotations. The eigenvectors are written to the columns of `outVectors` and
+ * the matching eigenvalues are returned.
+ */
+export function symmetricEigen3(
+  m: ArrayLike<number>,
+  outVectors: THREE.Matrix3,
+): [number, number, number] {
+  const a = [
+    [m[0]!, m[1]!, m[2]!],
+    [m[3]!, m[4]!, m[5]!],
+    [m[6]!, m[7]!, m[8]!],
+  ];
+  const v = [
+    [1, 0, 0],
+    [0, 1, 0],
+    [0, 0, 1],
+  ];
+
+  for (let sweep = 0; sweep < 50; sweep++) {
+    const offDiagonal = Math.abs(a[0]![1]!) + Math.abs(a[0]![2]!) + Math.abs(a[1]![2]!);
+    if (offDiagonal < 1e-15) {
+      break;
+    }
+    for (let p = 0; p < 2; p++) {
+      for (let q = p + 1; q < 3; q++) {
+        const apq = a[p]![q]!;
+        if (Math.abs(apq) < 1e-18) {
+          continue;
+        }
+        // Rotate rows and columns p and q to zero out a[p][q]
+        const theta = (a[q]![q]! - a[p]![p]!) / (2 * apq);
+        const t = (theta >= 0 ? 1 : -1) / (Math.abs(theta) + Math.sqrt(theta * theta + 1));
+        const cos = 1 / Math.sqrt(t * t + 1);
+        const sin = t * cos;
+        for (let k = 0; k < 3; k++) {
+          const akp = a[k]![p]!;
+          const akq = a[k]![q]!;
+          a[k]![p] = cos * akp - sin * akq;
+          a[k]![q] = sin * akp + cos * akq;
+        }
+        for (let k = 0; k < 3; k++) {
+          const apk = a[p]![k]!;
+          const aqk = a[q]![k]!;
+          a[p]![k] = cos * apk - sin * aqk;
+          a[q]![k] = sin * apk + cos * aqk;
+        }
+        for (let k = 0; k < 3; k++) {
+          const vkp = v[k]![p]!;
+          const vkq = v[k]![q]!;
+          v[k]![p] = cos * vkp - sin * vkq;
+          v[k]![q] = sin * vkp + cos * vkq;
+        }
+      }
+    }
+  }
+
+  outVectors.set(
+    v[0]![0]!,
+    v[0]![1]!,
+    v[0]![2]!,
+    v[1]![0]!,
+    v[1]![1]!,
+    v[1]![2]!,
+    v[2]![0]!,
+    v[2]![1]!,
+    v[2]![2]!,
+  );
+  return [a[0]![0]!, a[1]![1]!, a[2]![2]!];
+}
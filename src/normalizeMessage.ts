@@ -0,0 +1,245 @@
+import {
+  FOXGLOVE_POINTCLOUD_DATATYPES,
+  FRAME_TRANSFORMS_DATATYPES,
+  FRAME_TRANSFORM_DATATYPES,
+  GRID_DATATYPES,
+  POSES_IN_FRAME_DATATYPES,
+  SCENE_UPDATE_DATATYPES,
+} from "./foxglove";
+import {
+  CAMERA_INFO_DATATYPES,
+  MARKER_ARRAY_DATATYPES,
+  MARKER_DATATYPES,
+  OCCUPANCY_GRID_DATATYPES,
+  PATH_DATATYPES,
+  ROBOT_DESCRIPTION_DATATYPES,
+  RosTime,
+  TF_DATATYPES,
+} from "./ros";
+
+// Messages from different data sources describe times in different shapes.
+// Renderables expect ROS 1 style `{ sec, nsec }`, so time fields are
+// converted at ingestion. Accepted shapes:
+//   { sec, nsec }          ROS 1
+//   { sec, nanosec }       ROS 2
+//   { seconds, nanos }     protobuf Timestamp and Duration, seconds may be a
+//                          bigint, string or Long-like { low, high }
+//   number                 seconds, as written by some JSON encoders
+//   "2022-01-02T03:04:05.123456789Z"  protobuf JSON Timestamp
+//   "1.5s"                 protobuf JSON Duration
+
+type UnknownObject = Record<string, unknown>;
+
+const NSEC_PER_SEC = 1e9;
+const ISO_TIMESTAMP_REGEX =
+  /^(\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2})(?:\.(\d{1,9}))?(Z|[+-]\d{2}:\d{2})$/;
+const DURATION_REGEX = /^(-?\d+(?:\.\d{1,9})?)s$/;
+
+/**
+ * Returns `message` with every time field the renderables read converted to
+ * `{ sec, nsec }`, and the lowercase ROS 2 CameraInfo matrix fields renamed to
+ * their ROS 1 names. The input is not modified; objects along the path to a
+ * converted field are shallow copied. Throws an Error describing the first
+ * malformed header or time field.
+ */
+export function normalizeMessage(datatype: string, message: unknown): unknown {
+  const msg = asObject(message, "message");
+
+  if (TF_DATATYPES.has(datatype)) {
+    return mapArray(msg, "transforms", normalizeHeader);
+  } else if (MARKER_ARRAY_DATATYPES.has(datatype)) {
+    return mapArray(msg, "markers", normalizeMarker);
+  } else if (MARKER_DATATYPES.has(datatype)) {
+    return normalizeMarker(msg, "message");
+  } else if (OCCUPANCY_GRID_DATATYPES.has(datatype)) {
+    const grid = normalizeHeader(msg, "message");
+    const info = asObject(grid.info, "info");
+    return {
+      ...grid,
+      info: { ...info, map_load_time: normalizeTime(info.map_load_time, "info.map_load_time") },
+    };
+  } else if (PATH_DATATYPES.has(datatype)) {
+    return mapArray(normalizeHeader(msg, "message"), "poses", normalizeHeader);
+  } else if (FRAME_TRANSFORMS_DATATYPES.has(datatype)) {
+    return mapArray(msg, "transforms", normalizeTimestamp);
+  } else if (SCENE_UPDATE_DATATYPES.has(datatype)) {
+    const withDeletions = mapArray(msg, "deletions", normalizeTimestamp);
+    return mapArray(withDeletions, "entities", (entity, path) => {
+      const normalized = normalizeTimestamp(entity, path);
+      // A missing lifetime is zero, which keeps the entity forever
+      const lifetime =
+        entity.lifetime == undefined
+          ? { sec: 0, nsec: 0 }
+          : normalizeTime(entity.lifetime, `${path}.lifetime`);
+      return { ...normalized, lifetime };
+    });
+  } else if (
+    FRAME_TRANSFORM_DATATYPES.has(datatype) ||
+    FOXGLOVE_POINTCLOUD_DATATYPES.has(datatype) ||
+    GRID_DATATYPES.has(datatype) ||
+    POSES_IN_FRAME_DATATYPES.has(datatype)
+  ) {
+    return normalizeTimestamp(msg, "message");
+  } else if (CAMERA_INFO_DATATYPES.has(datatype)) {
+    return normalizeCameraInfo(normalizeHeader(msg, "message"));
+  } else if (ROBOT_DESCRIPTION_DATATYPES.has(datatype)) {
+    // std_msgs/String has no time fields
+    return msg;
+  }
+
+  // All other supported ROS messages only carry time in their header
+  return normalizeHeader(msg, "message");
+}
+
+/**
+ * Convert any supported time or duration shape into `{ sec, nsec }` with
+ * `0 <= nsec < 1e9`. `path` names the field in error messages.
+ */
+export function normalizeTime(value: unknown, path: string): RosTime {
+  let sec: number | undefined;
+  let nsec: number | undefined;
+
+  if (typeof value === "number") {
+    sec = Math.floor(value);
+    nsec = Math.round((value - sec) * NSEC_PER_SEC);
+  } else if (typeof value === "string") {
+    [sec, nsec] = parseTimeString(value) ?? [];
+  } else if (typeof value === "object" && value != undefined) {
+    const obj = value as UnknownObject;
+    if ("seconds" in obj) {
+      sec = toNumber(obj.seconds);
+      nsec = obj.nanos == undefined ? 0 : toNumber(obj.nanos);
+    } else {
+      sec = toNumber(obj.sec);
+      nsec = toNumber(obj.nsec ?? obj.nanosec);
+    }
+  }
+
+  if (sec == undefined || nsec == undefined || !Number.isInteger(sec) || !Number.isInteger(nsec)) {
+    throw new Error(`Invalid time in ${path}: ${describe(value)}`);
+  }
+
+  // Carry nanoseconds outside [0, 1e9) into seconds
+  sec += Math.floor(nsec / NSEC_PER_SEC);
+  nsec = ((nsec % NSEC_PER_SEC) + NSEC_PER_SEC) % NSEC_PER_SEC;
+  return { sec, nsec };
+}
+
+function normalizeHeader(obj: UnknownObject, path: string): UnknownObject {
+  const header = asObject(obj.header, `${path}.header`);
+  if (typeof header.frame_id !== "string") {
+    throw new Error(`Invalid ${path}.header.frame_id: ${describe(header.frame_id)}`);
+  }
+  return {
+    ...obj,
+    header: { ...header, stamp: normalizeTime(header.stamp, `${path}.header.stamp`) },
+  };
+}
+
+// ROS 2 sensor_msgs/msg/CameraInfo spells the matrices d, k, r and p
+function normalizeCameraInfo(cameraInfo: UnknownObject): UnknownObject {
+  return {
+    ...cameraInfo,
+    D: cameraInfo.D ?? cameraInfo.d,
+    K: cameraInfo.K ?? cameraInfo.k,
+    R: cameraInfo.R ?? cameraInfo.r,
+    P: cameraInfo.P ?? cameraInfo.p,
+  };
+}
+
+function normalizeMarker(marker: UnknownObject, path: string): UnknownObject {
+  const normalized = normalizeHeader(marker, path);
+  // Markers that are being deleted don't need a lifetime
+  const lifetime =
+    marker.lifetime == undefined
+      ? { sec: 0, nsec: 0 }
+      : normalizeTime(marker.lifetime, `${path}.lifetime`);
+  return { ...normalized, lifetime };
+}
+
+// Foxglove schemas store their time in a top-level `timestamp` field
+function normalizeTimestamp(obj: UnknownObject, path: string): UnknownObject {
+  return { ...obj, timestamp: normalizeTime(obj.timestamp, `${path}.timestamp`) };
+}
+
+function mapArray(
+  obj: UnknownObject,
+  key: string,
+  normalize: (item: UnknownObject, path: string) => UnknownObject,
+): UnknownObject {
+  const items = obj[key];
+  if (items == undefined) {
+    return obj;
+  }
+  if (!Array.isArray(items)) {
+    throw new Error(`Invalid ${key}: expected an array, got ${describe(items)}`);
+  }
+  return {
+    ...obj,
+    [key]: items.map((item, i) => normalize(asObject(item, `${key}[${i}]`), `${key}[${i}]`)),
+  };
+}
+
+function asObject(value: unknown, path: string): UnknownObject {
+  if (typeof value !== "object" || value == undefined) {
+    throw new Error(`Missing ${path}`);
+  }
+  return value as UnknownObject;
+}
+
+function toNumber(value: unknown): number | undefined {
+  if (typeof value === "number") {
+    return value;
+  } else if (typeof value === "bigint") {
+    return Number(value);
+  } else if (typeof value === "string" && /^-?\d+$/.test(value)) {
+    // int64 values are written as strings in protobuf JSON
+    return Number(value);
+  } else if (typeof value === "object" && value != undefined) {
+    // Long-like objects from protobuf.js
+    const { low, high } = value as UnknownObject;
+    if (typeof low === "number" && typeof high === "number") {
+      return high * 2 ** 32 + (low >>> 0);
+    }
+  }
+  return undefined;
+}
+
+function parseTimeString(value: string): [number, number] | undefined {
+  const duration = DURATION_REGEX.exec(value);
+  if (duration) {
+    return splitSeconds(duration[1]!);
+  }
+
+  const timestamp = ISO_TIMESTAMP_REGEX.exec(value);
+  if (timestamp) {
+    const ms = Date.parse(timestamp[1]! + timestamp[3]!);
+    if (isNaN(ms)) {
+      return undefined;
+    }
+    const fraction = (timestamp[2] ?? "").padEnd(9, "0");
+    return [ms / 1000, Number(fraction)];
+  }
+  return undefined;
+}
+
+// Split a decimal seconds string into integer seconds and nanoseconds without
+// losing precision to floating point
+function splitSeconds(value: string): [number, number] {
+  const negative = value.startsWith("-");
+  const [whole, fraction = ""] = (negative ? value.slice(1) : value).split(".");
+  const sec = Number(whole);
+  const nsec = Number(fraction.padEnd(9, "0"));
+  return negative ? [-sec, -nsec] : [sec, nsec];
+}
+
+function describe(value: unknown): string {
+  if (typeof value === "bigint") {
+    return `${value}n`;
+  }
+  try {
+    return JSON.stringify(value) ?? String(value);
+  } catch {
+    return String(value);
+  }
+}
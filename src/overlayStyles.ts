@@ -0,0 +1,42 @@
+import { css } from "@emotion/css";
+
+// Shared styles for the panels drawn on top of the 3D canvas
+
+export const overlayContainer = css`
+  display: flex;
+  flex-direction: column;
+  gap: 4px;
+  padding: 6px;
+  font-size: 12px;
+  border-radius: 4px;
+`;
+
+export const overlayLight = css`
+  color: #27272b;
+  background-color: #ececec99;
+`;
+
+export const overlayDark = css`
+  color: #e1e1e4;
+  background-color: #181818cc;
+`;
+
+export const overlayRow = css`
+  display: flex;
+  align-items: center;
+  justify-content: space-between;
+  gap: 8px;
+`;
+
+// A row inside a <summary>, leaving room for the disclosure marker
+export const overlaySummaryRow = css`
+  display: inline-flex;
+  align-items: center;
+  justify-content: space-between;
+  gap: 8px;
+  width: calc(100% - 16px);
+`;
+
+export function overlayClassName(colorScheme: "dark" | "light" | undefined): string {
+  return `${overlayContainer} ${colorScheme === "dark" ? overlayDark : overlayLight}`;
+}
@@ -0,0 +1,448 @@
+import * as THREE from "three";
+
+import { Renderer } from "../Renderer";
+import { CameraInfoConfig } from "../config";
+import { cameraIntrinsics, decodeImage } from "../images";
+import {
+  CameraInfo,
+  CAMERA_INFO_DATATYPES,
+  CompressedImage,
+  COMPRESSED_IMAGE_DATATYPES,
+  Image,
+  IMAGE_DATATYPES,
+  MarkerType,
+  Pose,
+  rosTimeToNanoSec,
+  Vector3,
+} from "../ros";
+import { SettingsTreeAction, SettingsTreeContributor, SettingsTreeEntry } from "../settings";
+import { makePose } from "../transforms";
+import { reportTransformFailure, updatePose } from "../updatePose";
+import { RenderableLineList } from "./markers/RenderableLineList";
+import { colorFromHex, syntheticMarker } from "./poseCommon";
+
+const DEFAULT_DEPTH = 1; // [m]
+const DEFAULT_LINE_WIDTH = 0.01; // [m]
+const DEFAULT_IMAGE_ALPHA = 1;
+const DEFAULT_COLOR = "#4ab8ff";
+const CAMERA_INFO_KEYS = new Set<string>(["depth", "lineWidth", "imageTopic", "imageAlpha"]);
+
+const INVALID_CAMERA_INFO = "INVALID_CAMERA_INFO";
+const INVALID_IMAGE = "INVALID_IMAGE";
+
+type ImageMessage =
+  | { compressed: false; image: Image }
+  | { compressed: true; image: CompressedImage };
+
+type CameraRenderable = THREE.Object3D & {
+  userData: {
+    topic: string;
+    frameId: string;
+    srcTime: bigint;
+    pose: Pose;
+    cameraInfo: CameraInfo;
+    lines: RenderableLineList | undefined;
+    texture: THREE.Texture | undefined;
+    // Decoded texels of the raw image texture, which is updated in place
+    // while the image size is unchanged
+    rgba: Uint8Array | undefined;
+    material: THREE.MeshBasicMaterial;
+    // Far plane of the frustum, textured with the image
+    imageMesh: THREE.Mesh<THREE.BufferGeometry, THREE.MeshBasicMaterial>;
+    // Incremented for each image, so a slow compressed image decode does not
+    // replace a newer image
+    imageSequence: number;
+  };
+};
+
+/**
+ * Draws the view frustum of sensor_msgs/CameraInfo topics in the camera
+ * optical frame (+z forward, +x right, +y down), optionally with the latest
+ * image from a paired Image or CompressedImage topic on the far plane. Image
+ * distortion is ignored.
+ */
+export class Cameras extends THREE.Object3D implements SettingsTreeContributor {
+  renderer: Renderer;
+  renderables = new Map<string, CameraRenderable>();
+  // Latest message on each image topic, keyed by topic name
+  images = new Map<string, ImageMessage>();
+
+  constructor(renderer: Renderer) {
+    super();
+    this.renderer = renderer;
+  }
+
+  dispose(): void {
+    for (const renderable of this.renderables.values()) {
+      disposeRenderable(renderable);
+    }
+    this.children.length = 0;
+    this.renderables.clear();
+    this.images.clear();
+  }
+
+  removeTopic(topic: string): void {
+    const renderable = this.renderables.get(topic);
+    if (renderable) {
+      this.remove(renderable);
+      disposeRenderable(renderable);
+      this.renderables.delete(topic);
+    }
+    if (this.images.delete(topic)) {
+      this._updateImageTopic(topic);
+    }
+  }
+
+  addCameraInfoMessage(topic: string, cameraInfo: CameraInfo): void {
+    let renderable = this.renderables.get(topic);
+    if (!renderable) {
+      renderable = this._createRenderable(topic, cameraInfo);
+      this.add(renderable);
+      this.renderables.set(topic, renderable);
+      this._updateImage(renderable);
+    }
+    renderable.userData.frameId = cameraInfo.header.frame_id;
+    renderable.userData.srcTime = rosTimeToNanoSec(cameraInfo.header.stamp);
+    renderable.userData.cameraInfo = cameraInfo;
+    this._updateFrustum(renderable);
+  }
+
+  addImageMessage(topic: string, image: Image): void {
+    this.images.set(topic, { compressed: false, image });
+    this._updateImageTopic(topic);
+  }
+
+  addCompressedImageMessage(topic: string, image: CompressedImage): void {
+    this.images.set(topic, { compressed: true, image });
+    this._updateImageTopic(topic);
+  }
+
+  startFrame(currentTime: bigint): void {
+    const renderFrameId = this.renderer.renderFrameId;
+    const fixedFrameId = this.renderer.fixedFrameId;
+    if (!renderFrameId || !fixedFrameId) {
+      return;
+    }
+
+    for (const [topic, renderable] of this.renderables) {
+      const failure = updatePose(
+        renderable,
+        this.renderer.transformTree,
+        renderFrameId,
+        fixedFrameId,
+        renderable.userData.frameId,
+        currentTime,
+        renderable.userData.srcTime,
+      );
+      reportTransformFailure(this.renderer.topicErrors, topic, failure);
+    }
+  }
+
+  settingsNodes(): SettingsTreeEntry[] {
+    const imageTopics = this.renderer.topics.filter(
+      (topic) =>
+        IMAGE_DATATYPES.has(topic.datatype) || COMPRESSED_IMAGE_DATATYPES.has(topic.datatype),
+    );
+    const imageOptions = [
+      { label: "None", value: undefined },
+      ...imageTopics.map((topic) => ({ label: topic.name, value: topic.name })),
+    ];
+
+    const entries: SettingsTreeEntry[] = [];
+    for (const topic of this.renderer.topics) {
+      if (!CAMERA_INFO_DATATYPES.has(topic.datatype)) {
+        continue;
+      }
+      const topicConfig = this.renderer.config.topics[topic.name];
+      const config = topicConfig?.cameraInfo ?? {};
+      entries.push({
+        path: ["topics", topic.name],
+        node: {
+          fields: {
+            color: { input: "color", label: "Color", value: topicConfig?.color ?? DEFAULT_COLOR },
+            depth: {
+              input: "number",
+              label: "Depth",
+              value: config.depth,
+              placeholder: String(DEFAULT_DEPTH),
+              min: 0,
+              step: 0.1,
+            },
+            lineWidth: {
+              input: "number",
+              label: "Line width",
+              value: config.lineWidth,
+              placeholder: String(DEFAULT_LINE_WIDTH),
+              min: 0,
+              step: 0.005,
+            },
+            imageTopic: {
+              input: "select",
+              label: "Image",
+              value: config.imageTopic,
+              options: imageOptions,
+            },
+            imageAlpha:
+              config.imageTopic != undefined
+                ? {
+                    input: "number",
+                    label: "Image alpha",
+                    value: config.imageAlpha,
+                    placeholder: String(DEFAULT_IMAGE_ALPHA),
+                    min: 0,
+                    max: 1,
+                    step: 0.1,
+                  }
+                : undefined,
+          },
+        },
+      });
+    }
+    return entries;
+  }
+
+  handleSettingsAction(action: SettingsTreeAction): void {
+    // ["topics", topic, key]
+    const { path, value } = action;
+    const key = path[2];
+    if (path.length !== 3 || key == undefined || (key !== "color" && !CAMERA_INFO_KEYS.has(key))) {
+      return;
+    }
+    const topic = path[1]!;
+    this.renderer.updateConfig((config) => {
+      const topicConfig = config.topics[topic] ?? {};
+      const newTopicConfig =
+        key === "color"
+          ? { ...topicConfig, color: typeof value === "string" ? value : undefined }
+          : { ...topicConfig, cameraInfo: { ...topicConfig.cameraInfo, [key]: value } };
+      return { ...config, topics: { ...config.topics, [topic]: newTopicConfig } };
+    });
+
+    const renderable = this.renderables.get(topic);
+    if (renderable) {
+      this._updateFrustum(renderable);
+      if (key === "imageTopic" || key === "imageAlpha") {
+        this._updateImage(renderable);
+      }
+    }
+  }
+
+  private _config(topic: string): CameraInfoConfig {
+    return this.renderer.config.topics[topic]?.cameraInfo ?? {};
+  }
+
+  private _createRenderable(topic: string, cameraInfo: CameraInfo): CameraRenderable {
+    const renderable = new THREE.Object3D() as CameraRenderable;
+    renderable.name = topic;
+
+    const geometry = new THREE.BufferGeometry();
+    geometry.setAttribute("position", new THREE.Float32BufferAttribute(new Float32Array(12), 3));
+    // Texture row 0 is the top image row, matching the first frustum corner
+    geometry.setAttribute("uv", new THREE.Float32BufferAttribute([0, 0, 1, 0, 1, 1, 0, 1], 2));
+    geometry.setIndex([0, 1, 2, 0, 2, 3]);
+    const material = new THREE.MeshBasicMaterial({ side: THREE.DoubleSide });
+    const imageMesh = new THREE.Mesh(geometry, material);
+    imageMesh.visible = false;
+    renderable.add(imageMesh);
+
+    renderable.userData = {
+      topic,
+      frameId: cameraInfo.header.frame_id,
+      srcTime: rosTimeToNanoSec(cameraInfo.header.stamp),
+      pose: makePose(),
+      cameraInfo,
+      lines: undefined,
+      texture: undefined,
+      rgba: undefined,
+      material,
+      imageMesh,
+      imageSequence: 0,
+    };
+    return renderable;
+  }
+
+  private _updateFrustum(renderable: CameraRenderable): void {
+    const { topic, cameraInfo, imageMesh } = renderable.userData;
+    const config = this._config(topic);
+    const corners = frustumCorners(cameraInfo, config.depth ?? DEFAULT_DEPTH);
+    if (!corners) {
+      this.renderer.topicErrors.add(
+        topic,
+        INVALID_CAMERA_INFO,
+        `CameraInfo has no valid focal length or image size (${cameraInfo.width}x${cameraInfo.height})`,
+      );
+      if (renderable.userData.lines) {
+        renderable.userData.lines.visible = false;
+      }
+      imageMesh.visible = false;
+      return;
+    }
+    this.renderer.topicErrors.remove(topic, INVALID_CAMERA_INFO);
+
+    // Four edges from the camera center to the corners, then the far plane
+    const origin = { x: 0, y: 0, z: 0 };
+    const points: Vector3[] = [];
+    for (let i = 0; i < 4; i++) {
+      points.push(origin, corners[i]!, corners[i]!, corners[(i + 1) % 4]!);
+    }
+    const topicColor = this.renderer.config.topics[topic]?.color;
+    const marker = syntheticMarker(
+      MarkerType.LINE_LIST,
+      0,
+      { x: config.lineWidth ?? DEFAULT_LINE_WIDTH, y: 0, z: 0 },
+      colorFromHex(topicColor ?? DEFAULT_COLOR, 1),
+      points,
+    );
+    if (!renderable.userData.lines) {
+      renderable.userData.lines = new RenderableLineList(topic, marker, this.renderer);
+      renderable.add(renderable.userData.lines);
+    } else {
+      renderable.userData.lines.update(marker);
+    }
+    renderable.userData.lines.visible = true;
+
+    const position = imageMesh.geometry.getAttribute("position") as THREE.BufferAttribute;
+    corners.forEach((corner, i) => position.setXYZ(i, corner.x, corner.y, corner.z));
+    position.needsUpdate = true;
+    imageMesh.geometry.computeBoundingSphere();
+    imageMesh.visible = renderable.userData.texture != undefined;
+  }
+
+  // Update every camera showing `imageTopic`
+  private _updateImageTopic(imageTopic: string): void {
+    for (const renderable of this.renderables.values()) {
+      if (this._config(renderable.userData.topic).imageTopic === imageTopic) {
+        this._updateImage(renderable);
+      }
+    }
+  }
+
+  private _updateImage(renderable: CameraRenderable): void {
+    const { topic, material } = renderable.userData;
+    const config = this._config(topic);
+    const imageTopic = config.imageTopic;
+    const message = imageTopic != undefined ? this.images.get(imageTopic) : undefined;
+    const sequence = ++renderable.userData.imageSequence;
+
+    const alpha = config.imageAlpha ?? DEFAULT_IMAGE_ALPHA;
+    const transparent = alpha < 1;
+    material.opacity = alpha;
+    if (material.transparent !== transparent) {
+      material.transparent = transparent;
+      material.depthWrite = !transparent;
+      material.needsUpdate = true;
+    }
+
+    if (!message || imageTopic == undefined) {
+      this._setTexture(renderable, undefined);
+      return;
+    }
+
+    if (!message.compressed) {
+      // Every encoding is decoded to RGBA, so the texture is updated in place
+      // unless the image size changes
+      const { width, height } = message.image;
+      const { texture: prevTexture, rgba: prevRgba } = renderable.userData;
+      const reuseTexture =
+        prevTexture instanceof THREE.DataTexture &&
+        prevRgba != undefined &&
+        prevTexture.image.width === width &&
+        prevTexture.image.height === height;
+      const rgba = reuseTexture ? prevRgba : new Uint8Array(width * height * 4);
+      try {
+        decodeImage(message.image, rgba);
+      } catch (err) {
+        this.renderer.topicErrors.add(imageTopic, INVALID_IMAGE, (err as Error).message);
+        this._setTexture(renderable, undefined);
+        return;
+      }
+      this.renderer.topicErrors.remove(imageTopic, INVALID_IMAGE);
+      if (reuseTexture) {
+        prevTexture.needsUpdate = true;
+      } else {
+        this._setTexture(renderable, new THREE.DataTexture(rgba, width, height, THREE.RGBAFormat));
+        renderable.userData.rgba = rgba;
+      }
+      return;
+    }
+
+    const { format, data } = message.image;
+    const type = format.includes("png") ? "image/png" : "image/jpeg";
+    const bytes = data instanceof Uint8Array ? data : Uint8Array.from(data);
+    createImageBitmap(new Blob([bytes], { type }))
+      .then((bitmap) => {
+        // Skip images replaced by a newer one or for removed topics
+        if (
+          renderable.userData.imageSequence !== sequence ||
+          this.renderables.get(topic) !== renderable
+        ) {
+          bitmap.close();
+          return;
+        }
+        this.renderer.topicErrors.remove(imageTopic, INVALID_IMAGE);
+        const texture = new THREE.Texture();
+        texture.image = bitmap;
+        this._setTexture(renderable, texture);
+      })
+      .catch((err: Error) => {
+        this.renderer.topicErrors.add(
+          imageTopic,
+          INVALID_IMAGE,
+          `Failed to decode ${format} image: ${err.message}`,
+        );
+      });
+  }
+
+  private _setTexture(renderable: CameraRenderable, texture: THREE.Texture | undefined): void {
+    const { material, imageMesh } = renderable.userData;
+    disposeTexture(renderable.userData.texture);
+    renderable.userData.texture = texture;
+    renderable.userData.rgba = undefined;
+    if (texture) {
+      texture.flipY = false;
+      texture.encoding = THREE.sRGBEncoding;
+      texture.generateMipmaps = false;
+      texture.minFilter = THREE.LinearFilter;
+      texture.needsUpdate = true;
+    }
+    material.map = texture ?? null;
+    material.needsUpdate = true;
+    // The image is only shown on a valid frustum
+    imageMesh.visible = texture != undefined && renderable.userData.lines?.visible === true;
+  }
+}
+
+// The far plane corners of the camera frustum at `depth`, clockwise from the
+// top left image corner. Returns undefined if the intrinsics are invalid
+function frustumCorners(cameraInfo: CameraInfo, depth: number): Vector3[] | undefined {
+  const { width, height } = cameraInfo;
+  const intrinsics = cameraIntrinsics(cameraInfo);
+  if (!intrinsics || !(width > 0) || !(height > 0)) {
+    return undefined;
+  }
+  const { fx, fy, cx, cy } = intrinsics;
+
+  const corner = (u: number, v: number): Vector3 => ({
+    x: ((u - cx) / fx) * depth,
+    y: ((v - cy) / fy) * depth,
+    z: depth,
+  });
+  return [corner(0, 0), corner(width, 0), corner(width, height), corner(0, height)];
+}
+
+function disposeTexture(texture: THREE.Texture | undefined): void {
+  if (texture?.image instanceof ImageBitmap) {
+    texture.image.close();
+  }
+  texture?.dispose();
+}
+
+function disposeRenderable(renderable: CameraRenderable): void {
+  renderable.userData.lines?.dispose();
+  renderable.userData.lines = undefined;
+  disposeTexture(renderable.userData.texture);
+  renderable.userData.texture = undefined;
+  renderable.userData.rgba = undefined;
+  renderable.userData.material.dispose();
+  renderable.userData.imageMesh.geometry.dispose();
+}
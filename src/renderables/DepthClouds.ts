@@ -0,0 +1,285 @@
+import { Renderer } from "../Renderer";
+import { DepthImageConfig } from "../config";
+import { cameraIntrinsics, decodeImage, readSingleChannel } from "../images";
+import {
+  CameraInfo,
+  CAMERA_INFO_DATATYPES,
+  Image,
+  IMAGE_DATATYPES,
+  PointCloud2,
+  PointField,
+  PointFieldType,
+} from "../ros";
+import { SettingsTreeAction, SettingsTreeContributor, SettingsTreeEntry } from "../settings";
+
+const DEFAULT_STRIDE = 1;
+const DEPTH_IMAGE_KEYS = new Set<string>(["cameraInfoTopic", "colorImageTopic", "stride"]);
+
+// Meters per depth unit for each supported depth encoding
+const DEPTH_SCALES: Record<string, number> = {
+  "16UC1": 0.001,
+  mono16: 0.001,
+  "32FC1": 1,
+};
+
+const MISSING_CAMERA_INFO = "MISSING_CAMERA_INFO";
+const INVALID_DEPTH_IMAGE = "INVALID_DEPTH_IMAGE";
+const INVALID_COLOR_IMAGE = "INVALID_COLOR_IMAGE";
+
+/**
+ * Unprojects depth images (16UC1 or mono16 in millimeters, 32FC1 in meters)
+ * into point clouds in the camera optical frame using the pinhole model of
+ * a CameraInfo topic. The points are drawn by `PointClouds` on the depth
+ * image topic. A color image is assumed to be registered to the depth image,
+ * so pixels are matched by their position in the image.
+ */
+export class DepthClouds implements SettingsTreeContributor {
+  renderer: Renderer;
+  // Latest depth image on each depth topic
+  depthImages = new Map<string, Image>();
+  // Latest message on each CameraInfo and color Image topic
+  cameraInfos = new Map<string, CameraInfo>();
+  colorImages = new Map<string, Image>();
+
+  constructor(renderer: Renderer) {
+    this.renderer = renderer;
+  }
+
+  dispose(): void {
+    this.depthImages.clear();
+    this.cameraInfos.clear();
+    this.colorImages.clear();
+  }
+
+  removeTopic(topic: string): void {
+    this.depthImages.delete(topic);
+    this.cameraInfos.delete(topic);
+    this.colorImages.delete(topic);
+  }
+
+  addCameraInfoMessage(topic: string, cameraInfo: CameraInfo): void {
+    this.cameraInfos.set(topic, cameraInfo);
+  }
+
+  /** Unproject depth images, or keep other images for coloring */
+  addImageMessage(topic: string, image: Image): void {
+    if (DEPTH_SCALES[image.encoding] == undefined) {
+      this.colorImages.set(topic, image);
+      return;
+    }
+    // Hidden depth topics are only subscribed for a camera that shows them
+    if (!this.renderer.topicVisible(topic)) {
+      return;
+    }
+    const isNewTopic = !this.depthImages.has(topic);
+    this.depthImages.set(topic, image);
+    this._updateCloud(topic);
+    if (isNewTopic) {
+      // Depth fields are only shown once a topic is known to have depth images
+      this.renderer.emit("settingsTreeChange", this.renderer);
+    }
+  }
+
+  settingsNodes(): SettingsTreeEntry[] {
+    const topicOptions = (datatypes: Set<string>) =>
+      this.renderer.topics
+        .filter((topic) => datatypes.has(topic.datatype))
+        .map((topic) => ({ label: topic.name, value: topic.name as string | undefined }));
+
+    const entries: SettingsTreeEntry[] = [];
+    for (const topic of this.depthImages.keys()) {
+      const config = this._config(topic);
+      entries.push({
+        path: ["topics", topic],
+        node: {
+          fields: {
+            cameraInfoTopic: {
+              input: "select",
+              label: "Camera info",
+              value: config.cameraInfoTopic,
+              options: [
+                { label: `Auto (${defaultCameraInfoTopic(topic)})`, value: undefined },
+                ...topicOptions(CAMERA_INFO_DATATYPES),
+              ],
+            },
+            colorImageTopic: {
+              input: "select",
+              label: "Color image",
+              value: config.colorImageTopic,
+              options: [
+                { label: "None", value: undefined },
+                ...topicOptions(IMAGE_DATATYPES).filter((option) => option.value !== topic),
+              ],
+            },
+            stride: {
+              input: "number",
+              label: "Stride",
+              value: config.stride,
+              placeholder: String(DEFAULT_STRIDE),
+              min: 1,
+              step: 1,
+            },
+          },
+        },
+      });
+    }
+    return entries;
+  }
+
+  handleSettingsAction(action: SettingsTreeAction): void {
+    // ["topics", topic, key]
+    const { path, value } = action;
+    const key = path[2];
+    if (path.length !== 3 || key == undefined || !DEPTH_IMAGE_KEYS.has(key)) {
+      return;
+    }
+    const topic = path[1]!;
+    this.renderer.updateConfig((config) => {
+      const topicConfig = config.topics[topic] ?? {};
+      return {
+        ...config,
+        topics: {
+          ...config.topics,
+          [topic]: { ...topicConfig, depthImage: { ...topicConfig.depthImage, [key]: value } },
+        },
+      };
+    });
+    this._updateCloud(topic);
+  }
+
+  private _config(topic: string): DepthImageConfig {
+    return this.renderer.config.topics[topic]?.depthImage ?? {};
+  }
+
+  private _updateCloud(topic: string): void {
+    const depthImage = this.depthImages.get(topic);
+    if (!depthImage) {
+      return;
+    }
+    const config = this._config(topic);
+    const topicErrors = this.renderer.topicErrors;
+
+    const cameraInfoTopic = config.cameraInfoTopic ?? defaultCameraInfoTopic(topic);
+    const cameraInfo = this.cameraInfos.get(cameraInfoTopic);
+    const intrinsics = cameraInfo ? cameraIntrinsics(cameraInfo) : undefined;
+    if (!intrinsics) {
+      topicErrors.add(
+        topic,
+        MISSING_CAMERA_INFO,
+        cameraInfo
+          ? `CameraInfo on "${cameraInfoTopic}" has no valid focal length`
+          : `No CameraInfo received on "${cameraInfoTopic}"`,
+      );
+      return;
+    }
+    topicErrors.remove(topic, MISSING_CAMERA_INFO);
+
+    let depths: Float32Array;
+    try {
+      depths = readSingleChannel(depthImage);
+    } catch (err) {
+      topicErrors.add(topic, INVALID_DEPTH_IMAGE, (err as Error).message);
+      return;
+    }
+    topicErrors.remove(topic, INVALID_DEPTH_IMAGE);
+
+    const colors = this._colors(topic, config.colorImageTopic);
+
+    const { width, height } = depthImage;
+    const { fx, fy, cx, cy } = intrinsics;
+    const depthScale = DEPTH_SCALES[depthImage.encoding]!;
+    const stride = Math.max(1, Math.floor(config.stride ?? DEFAULT_STRIDE));
+    const pointStep = colors ? 16 : 12;
+
+    // Emit a point for every sampled pixel so the cloud size only changes with
+    // the image size and stride, rather than with the number of valid depths.
+    // Invalid depths become NaN points, which the point cloud decoder skips
+    const count = Math.ceil(width / stride) * Math.ceil(height / stride);
+    const data = new Uint8Array(count * pointStep);
+    const view = new DataView(data.buffer);
+    let i = 0;
+    for (let v = 0; v < height; v += stride) {
+      for (let u = 0; u < width; u += stride, i++) {
+        const offset = i * pointStep;
+        const z = depths[v * width + u]! * depthScale;
+        if (!(z > 0) || !isFinite(z)) {
+          view.setFloat32(offset + 0, NaN, true);
+          view.setFloat32(offset + 4, NaN, true);
+          view.setFloat32(offset + 8, NaN, true);
+          continue;
+        }
+        view.setFloat32(offset + 0, ((u - cx) * z) / fx, true);
+        view.setFloat32(offset + 4, ((v - cy) * z) / fy, true);
+        view.setFloat32(offset + 8, z, true);
+        if (colors) {
+          // Scale to the color image in case it has a different resolution
+          const cu = Math.floor((u * colors.width) / width);
+          const cv = Math.floor((v * colors.height) / height);
+          const c = (cv * colors.width + cu) * 4;
+          const rgba = colors.rgba;
+          const packed =
+            ((rgba[c + 3]! << 24) | (rgba[c]! << 16) | (rgba[c + 1]! << 8) | rgba[c + 2]!) >>> 0;
+          view.setUint32(offset + 12, packed, true);
+        }
+      }
+    }
+
+    const fields: PointField[] = [
+      { name: "x", offset: 0, datatype: PointFieldType.FLOAT32, count: 1 },
+      { name: "y", offset: 4, datatype: PointFieldType.FLOAT32, count: 1 },
+      { name: "z", offset: 8, datatype: PointFieldType.FLOAT32, count: 1 },
+    ];
+    if (colors) {
+      fields.push({ name: "rgba", offset: 12, datatype: PointFieldType.UINT32, count: 1 });
+    }
+    const pointCloud: PointCloud2 = {
+      header: depthImage.header,
+      height: 1,
+      width: count,
+      fields,
+      is_bigendian: false,
+      point_step: pointStep,
+      row_step: count * pointStep,
+      data,
+      is_dense: false,
+    };
+    this.renderer.pointClouds.addPointCloud2Message(topic, pointCloud);
+  }
+
+  // Decode the latest color image as RGBA bytes, or return undefined if there is none
+  private _colors(
+    topic: string,
+    colorImageTopic: string | undefined,
+  ): { width: number; height: number; rgba: Uint8Array } | undefined {
+    const topicErrors = this.renderer.topicErrors;
+    if (colorImageTopic == undefined) {
+      topicErrors.remove(topic, INVALID_COLOR_IMAGE);
+      return undefined;
+    }
+    const colorImage = this.colorImages.get(colorImageTopic);
+    if (!colorImage) {
+      topicErrors.remove(topic, INVALID_COLOR_IMAGE);
+      return undefined;
+    }
+    const { width, height } = colorImage;
+    const rgba = new Uint8Array(width * height * 4);
+    try {
+      decodeImage(colorImage, rgba);
+    } catch (err) {
+      topicErrors.add(
+        topic,
+        INVALID_COLOR_IMAGE,
+        `Color image on "${colorImageTopic}": ${(err as Error).message}`,
+      );
+      return undefined;
+    }
+    topicErrors.remove(topic, INVALID_COLOR_IMAGE);
+    return { width, height, rgba };
+  }
+}
+
+// Depth images are usually published next to their CameraInfo, such as
+// /camera/depth/image_rect_raw and /camera/depth/camera_info
+function defaultCameraInfoTopic(depthTopic: string): string {
+  return depthTopic.slice(0, depthTopic.lastIndexOf("/") + 1) + "camera_info";
+}
@@ -1,7 +1,9 @@
 import * as THREE from "three";
+
 import { Renderer } from "../Renderer";
 import { Pose, rosTimeToNanoSec, TF } from "../ros";
-import { makePose, Transform } from "../transforms";
+import { SettingsTreeAction, SettingsTreeContributor, SettingsTreeEntry } from "../settings";
+import { AddTransformResult, makePose, Transform } from "../transforms";
 import { updatePose } from "../updatePose";
 
 type FrameAxisRenderable = THREE.Object3D & {
@@ -13,13 +15,24 @@ type FrameAxisRenderable = THREE.Object3D & {
   };
 };
 
-export class FrameAxes extends THREE.Object3D {
+const AXIS_DEFAULT_LENGTH = 1; // [m]
+
+// Error ids are suffixed with the child frame id, so each frame on a topic is
+// reported separately
+const TRANSFORM_CYCLE = "TRANSFORM_CYCLE";
+const COMPETING_PARENT = "COMPETING_PARENT";
+
+export class FrameAxes extends THREE.Object3D implements SettingsTreeContributor {
   renderer: Renderer;
   renderables = new Map<string, FrameAxisRenderable>();
+  // Every parent seen for frames that were taken from one parent by another,
+  // so the error message doesn't change when publishers alternate parents
+  private _competingParents = new Map<string, Set<string>>();
 
   constructor(renderer: Renderer) {
     super();
     this.renderer = renderer;
+    this.visible = renderer.config.frameAxes.visible ?? true;
   }
 
   dispose(): void {
@@ -32,9 +45,16 @@ export class FrameAxes extends THREE.Object3D {
     }
     this.children.length = 0;
     this.renderables.clear();
+    this._competingParents.clear();
   }
 
-  addTransformMessage(tf: TF): void {
+  /**
+   * Add a transform received on `topic` to the transform tree, marking it
+   * static if `isStatic`. Transforms that would create a cycle are rejected,
+   * and they and transforms that take a frame from another parent are
+   * reported as errors on `topic`.
+   */
+  addTransformMessage(topic: string, tf: TF, isStatic = false): void {
     let frameAdded = false;
     if (!this.renderer.transformTree.hasFrame(tf.header.frame_id)) {
       this._addFrameAxis(tf.header.frame_id);
@@ -49,12 +69,16 @@ export class FrameAxes extends THREE.Object3D {
     const t = tf.transform.translation;
     const q = tf.transform.rotation;
     const transform = new Transform([t.x, t.y, t.z], [q.x, q.y, q.z, q.w]);
-    this.renderer.transformTree.addTransform(
+    const tree = this.renderer.transformTree;
+    const prevParentId = tree.frame(tf.child_frame_id)?.parent()?.id;
+    const result = tree.addTransform(
       tf.child_frame_id,
       tf.header.frame_id,
       stamp,
       transform,
+      isStatic,
     );
+    this._reportResult(topic, tf, prevParentId, result);
 
     if (frameAdded) {
       console.info(`[FrameAxes] Added transform "${tf.header.frame_id}_T_${tf.child_frame_id}"`);
@@ -62,6 +86,49 @@ export class FrameAxes extends THREE.Object3D {
     }
   }
 
+  settingsNodes(): SettingsTreeEntry[] {
+    const config = this.renderer.config.frameAxes;
+    return [
+      {
+        path: ["frames"],
+        node: {
+          fields: {
+            showAxes: { input: "boolean", label: "Show axes", value: config.visible ?? true },
+            axisLength: {
+              input: "number",
+              label: "Axis length",
+              value: config.axisLength,
+              placeholder: String(AXIS_DEFAULT_LENGTH),
+              min: 0,
+              step: 0.1,
+            },
+          },
+        },
+      },
+    ];
+  }
+
+  handleSettingsAction(action: SettingsTreeAction): void {
+    const key = action.path[1];
+    const value = action.value;
+    if (key === "showAxes" && typeof value === "boolean") {
+      this.renderer.updateConfig((config) => ({
+        ...config,
+        frameAxes: { ...config.frameAxes, visible: value },
+      }));
+      this.visible = value;
+    } else if (key === "axisLength") {
+      const axisLength = typeof value === "number" && value > 0 ? value : undefined;
+      this.renderer.updateConfig((config) => ({
+        ...config,
+        frameAxes: { ...config.frameAxes, axisLength },
+      }));
+      for (const renderable of this.renderables.values()) {
+        this._updateAxisLength(renderable);
+      }
+    }
+  }
+
   startFrame(currentTime: bigint): void {
     const renderFrameId = this.renderer.renderFrameId;
     const fixedFrameId = this.renderer.fixedFrameId;
@@ -80,6 +147,58 @@ export class FrameAxes extends THREE.Object3D {
     }
   }
 
+  private _reportResult(
+    topic: string,
+    tf: TF,
+    prevParentId: string | undefined,
+    result: AddTransformResult,
+  ): void {
+    const topicErrors = this.renderer.topicErrors;
+    const childId = tf.child_frame_id;
+    const parentId = tf.header.frame_id;
+    const cycleErrorId = `${TRANSFORM_CYCLE}:${childId}`;
+    const competingErrorId = `${COMPETING_PARENT}:${childId}`;
+    switch (result) {
+      case AddTransformResult.Cycle:
+        topicErrors.add(
+          topic,
+          cycleErrorId,
+          `Ignored transform "${parentId}_T_${childId}", "${childId}" is already an ancestor of "${parentId}"`,
+        );
+        return;
+      case AddTransformResult.CompetingParent: {
+        let parentIds = this._competingParents.get(childId);
+        if (!parentIds) {
+          parentIds = new Set();
+          this._competingParents.set(childId, parentIds);
+        }
+        if (prevParentId != undefined) {
+          parentIds.add(prevParentId);
+        }
+        parentIds.add(parentId);
+        const parentList = Array.from(parentIds)
+          .sort()
+          .map((id) => `"${id}"`)
+          .join(", ");
+        topicErrors.add(
+          topic,
+          competingErrorId,
+          `Frame "${childId}" has multiple parents: ${parentList}`,
+        );
+        topicErrors.remove(topic, cycleErrorId);
+        return;
+      }
+      case AddTransformResult.Added:
+        // Skip building error ids at the transform rate when there is nothing to clear
+        if (topicErrors.hasErrors(topic)) {
+          topicErrors.remove(topic, cycleErrorId);
+          topicErrors.remove(topic, competingErrorId);
+          this._competingParents.delete(childId);
+        }
+        return;
+    }
+  }
+
   private _addFrameAxis(frameId: string): void {
     if (this.renderables.has(frameId)) return;
 
@@ -90,13 +209,21 @@ export class FrameAxes extends THREE.Object3D {
     frame.userData.selectable = true;
     frame.userData.pose = makePose();
 
-    const AXIS_DEFAULT_LENGTH = 1; // [m]
     const axes = new THREE.AxesHelper(AXIS_DEFAULT_LENGTH);
     frame.add(axes);
+    this._updateAxisLength(frame);
 
     // TODO: <div> floating label
 
     this.add(frame);
     this.renderables.set(frameId, frame);
   }
+
+  private _updateAxisLength(frame: FrameAxisRenderable): void {
+    const axisLength = this.renderer.config.frameAxes.axisLength ?? AXIS_DEFAULT_LENGTH;
+    const scale = axisLength / AXIS_DEFAULT_LENGTH;
+    for (const child of frame.children) {
+      child.scale.set(scale, scale, scale);
+    }
+  }
 }
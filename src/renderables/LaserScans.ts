@@ -0,0 +1,204 @@
+import * as THREE from "three";
+
+import { Renderer } from "../Renderer";
+import { PointCloudColorMode, PointCloudConfig } from "../config";
+import { LaserScan, LASERSCAN_DATATYPES, rosTimeToNanoSec } from "../ros";
+import { SettingsTreeAction, SettingsTreeContributor, SettingsTreeEntry } from "../settings";
+import { reportTransformFailure, updatePose } from "../updatePose";
+import {
+  createPointsRenderable,
+  disposePointsRenderable,
+  fillColorMapColors,
+  fillFlatColors,
+  finishPointsUpdate,
+  handlePointsSettingsAction,
+  pointsConfig,
+  pointsSettingsFields,
+  PointsRenderable,
+  resizePoints,
+  updatePointSize,
+} from "./pointsCommon";
+
+const COLOR_MODES: ReadonlyArray<PointCloudColorMode> = ["flat", "colormap"];
+
+const INVALID_ANGLE_INCREMENT = "INVALID_ANGLE_INCREMENT";
+
+type LaserScanRenderable = PointsRenderable & {
+  userData: {
+    laserScan: LaserScan;
+  };
+};
+
+export class LaserScans extends THREE.Object3D implements SettingsTreeContributor {
+  renderer: Renderer;
+  renderables = new Map<string, LaserScanRenderable>();
+
+  // Temporary storage for color field values, reused across messages
+  private _values = new Float32Array(0);
+
+  constructor(renderer: Renderer) {
+    super();
+    this.renderer = renderer;
+  }
+
+  dispose(): void {
+    for (const renderable of this.renderables.values()) {
+      disposePointsRenderable(renderable);
+    }
+    this.children.length = 0;
+    this.renderables.clear();
+  }
+
+  removeTopic(topic: string): void {
+    const renderable = this.renderables.get(topic);
+    if (renderable) {
+      this.remove(renderable);
+      disposePointsRenderable(renderable);
+      this.renderables.delete(topic);
+    }
+  }
+
+  addLaserScanMessage(topic: string, laserScan: LaserScan): void {
+    let renderable = this.renderables.get(topic);
+    if (!renderable) {
+      renderable = createPointsRenderable(
+        topic,
+        rosTimeToNanoSec(laserScan.header.stamp),
+      ) as LaserScanRenderable;
+      this.add(renderable);
+      this.renderables.set(topic, renderable);
+    }
+    renderable.userData.laserScan = laserScan;
+    renderable.userData.srcTime = rosTimeToNanoSec(laserScan.header.stamp);
+    this._updateRenderable(renderable);
+  }
+
+  startFrame(currentTime: bigint): void {
+    const renderFrameId = this.renderer.renderFrameId;
+    const fixedFrameId = this.renderer.fixedFrameId;
+    if (!renderFrameId || !fixedFrameId) {
+      return;
+    }
+
+    for (const [topic, renderable] of this.renderables) {
+      const failure = updatePose(
+        renderable,
+        this.renderer.transformTree,
+        renderFrameId,
+        fixedFrameId,
+        renderable.userData.laserScan.header.frame_id,
+        currentTime,
+        renderable.userData.srcTime,
+      );
+      reportTransformFailure(this.renderer.topicErrors, topic, failure);
+    }
+  }
+
+  settingsNodes(): SettingsTreeEntry[] {
+    const entries: SettingsTreeEntry[] = [];
+    for (const topic of this.renderer.topics) {
+      if (!LASERSCAN_DATATYPES.has(topic.datatype)) {
+        continue;
+      }
+      const config = pointsConfig(this.renderer, topic.name);
+      const renderable = this.renderables.get(topic.name);
+      const laserScan = renderable?.userData.laserScan;
+      entries.push({
+        path: ["topics", topic.name],
+        node: {
+          fields: pointsSettingsFields({
+            config,
+            renderable,
+            colorModes: COLOR_MODES,
+            colorMode: laserScan ? resolveColorMode(config, laserScan) : config.colorMode,
+            colorFields:
+              laserScan && hasIntensities(laserScan) ? ["intensity", "range"] : ["range"],
+            colorField: laserScan ? resolveColorField(config, laserScan) : config.colorField,
+          }),
+        },
+      });
+    }
+    return entries;
+  }
+
+  handleSettingsAction(action: SettingsTreeAction): void {
+    const topic = handlePointsSettingsAction(this.renderer, action);
+    const renderable = topic != undefined ? this.renderables.get(topic) : undefined;
+    if (renderable) {
+      this._updateRenderable(renderable);
+    }
+  }
+
+  private _updateRenderable(renderable: LaserScanRenderable): void {
+    const { topic, laserScan } = renderable.userData;
+    const config = pointsConfig(this.renderer, topic);
+
+    updatePointSize(renderable, config);
+
+    const { ranges, intensities } = laserScan;
+    if (laserScan.angle_increment === 0 && ranges.length > 1) {
+      this.renderer.topicErrors.add(
+        topic,
+        INVALID_ANGLE_INCREMENT,
+        "LaserScan has an angle_increment of 0",
+      );
+    } else {
+      this.renderer.topicErrors.remove(topic, INVALID_ANGLE_INCREMENT);
+    }
+
+    const colorMode = resolveColorMode(config, laserScan);
+    const colorByIntensity =
+      colorMode === "colormap" && resolveColorField(config, laserScan) === "intensity";
+
+    const { positionAttribute, colorAttribute } = renderable.userData;
+    resizePoints(renderable, ranges.length);
+    if (this._values.length < ranges.length) {
+      this._values = new Float32Array(ranges.length);
+    }
+    const positions = positionAttribute.data;
+    const colors = colorAttribute.data;
+    const values = this._values;
+
+    // Convert polar ranges to points in the XY plane of the scan frame,
+    // discarding out of range values
+    let count = 0;
+    for (let i = 0; i < ranges.length; i++) {
+      const range = ranges[i]!;
+      if (!isFinite(range) || range < laserScan.range_min || range > laserScan.range_max) {
+        continue;
+      }
+      const angle = laserScan.angle_min + i * laserScan.angle_increment;
+      positions[count * 3 + 0] = range * Math.cos(angle);
+      positions[count * 3 + 1] = range * Math.sin(angle);
+      positions[count * 3 + 2] = 0;
+      values[count] = colorByIntensity ? intensities[i]! : range;
+      count++;
+    }
+
+    if (colorMode === "colormap") {
+      fillColorMapColors(renderable, config, colors, values, count);
+    } else {
+      fillFlatColors(config, colors, count);
+    }
+
+    finishPointsUpdate(renderable, count);
+  }
+}
+
+function hasIntensities(laserScan: LaserScan): boolean {
+  return laserScan.intensities.length === laserScan.ranges.length;
+}
+
+function resolveColorMode(config: PointCloudConfig, laserScan: LaserScan): PointCloudColorMode {
+  if (config.colorMode === "flat" || config.colorMode === "colormap") {
+    return config.colorMode;
+  }
+  return hasIntensities(laserScan) ? "colormap" : "flat";
+}
+
+function resolveColorField(config: PointCloudConfig, laserScan: LaserScan): string {
+  if (config.colorField === "range") {
+    return "range";
+  }
+  return hasIntensities(laserScan) ? "intensity" : "range";
+}
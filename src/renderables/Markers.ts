@@ -1,9 +1,23 @@
 import * as THREE from "three";
+
 import { Renderer } from "../Renderer";
-import { Marker } from "../ros";
-import { TopicMarkers } from "./TopicMarkers";
+import { MarkerNamespaceConfig } from "../config";
+import {
+  SceneEntityDeletionType,
+  sceneEntityToMarkers,
+  SceneUpdate,
+  SCENE_UPDATE_DATATYPES,
+} from "../foxglove";
+import { Marker, MARKER_ARRAY_DATATYPES, MARKER_DATATYPES } from "../ros";
+import {
+  SettingsTreeAction,
+  SettingsTreeContributor,
+  SettingsTreeEntry,
+  SettingsTreeNode,
+} from "../settings";
+import { markerTransformErrorId, TopicMarkers } from "./TopicMarkers";
 
-export class Markers extends THREE.Object3D {
+export class Markers extends THREE.Object3D implements SettingsTreeContributor {
   renderer: Renderer;
   topics = new Map<string, TopicMarkers>();
 
@@ -20,13 +34,151 @@ export class Markers extends THREE.Object3D {
   }
 
   addMarkerMessage(topic: string, marker: Marker): void {
-    let topicMarkers = this.topics.get(topic);
-    if (!topicMarkers) {
-      topicMarkers = new TopicMarkers(topic, this.renderer);
-      this.topics.set(topic, topicMarkers);
-      this.add(topicMarkers);
+    this._topicMarkers(topic).addMarkerMessage(marker);
+  }
+
+  /**
+   * Apply a foxglove.SceneUpdate. Each entity is drawn as a namespace of
+   * markers named after the entity id, replacing the previous version of
+   * the entity.
+   */
+  addSceneUpdateMessage(topic: string, sceneUpdate: SceneUpdate): void {
+    const topicMarkers = this._topicMarkers(topic);
+    for (const deletion of sceneUpdate.deletions) {
+      if (deletion.type === SceneEntityDeletionType.ALL) {
+        // Same as a DELETEALL marker
+        topicMarkers.dispose();
+      } else {
+        topicMarkers.deleteNamespace(deletion.id);
+      }
+    }
+    for (const entity of sceneUpdate.entities) {
+      const markers = sceneEntityToMarkers(entity);
+      for (const marker of markers) {
+        topicMarkers.addMarkerMessage(marker);
+      }
+      // Remove primitives that are no longer part of the entity
+      topicMarkers.deleteNamespace(entity.id, markers.length);
+    }
+  }
+
+  /**
+   * Show or hide all markers in a namespace on the given topic, including
+   * markers that arrive in the future.
+   */
+  setNamespaceVisible(topic: string, ns: string, visible: boolean): void {
+    this._updateNamespaceConfig(topic, ns, (nsConfig) => ({ ...nsConfig, visible }));
+  }
+
+  /**
+   * Show or hide a single marker, identified by its namespace and id, on the
+   * given topic.
+   */
+  setMarkerVisible(topic: string, ns: string, id: number, visible: boolean): void {
+    this._updateNamespaceConfig(topic, ns, (nsConfig) => {
+      const hiddenIds = (nsConfig.hiddenIds ?? []).filter((hiddenId) => hiddenId !== id);
+      if (!visible) {
+        hiddenIds.push(id);
+      }
+      return { ...nsConfig, hiddenIds };
+    });
+  }
+
+  /** Override the color of all markers on the given topic, or clear the override */
+  setTopicColor(topic: string, color: string | undefined): void {
+    this.renderer.updateConfig((config) => ({
+      ...config,
+      topics: { ...config.topics, [topic]: { ...config.topics[topic], color } },
+    }));
+    this.topics.get(topic)?.updateColorOverride();
+  }
+
+  settingsNodes(): SettingsTreeEntry[] {
+    const entries: SettingsTreeEntry[] = [];
+    for (const topic of this.renderer.topics) {
+      if (
+        !MARKER_DATATYPES.has(topic.datatype) &&
+        !MARKER_ARRAY_DATATYPES.has(topic.datatype) &&
+        !SCENE_UPDATE_DATATYPES.has(topic.datatype)
+      ) {
+        continue;
+      }
+      const topicConfig = this.renderer.config.topics[topic.name];
+      const nsChildren: Record<string, SettingsTreeNode> = {};
+      const topicMarkers = this.topics.get(topic.name);
+      const topicErrors = this.renderer.topicErrors.errors.get(topic.name);
+      const nsNames = Array.from(topicMarkers?.namespaces.keys() ?? []).sort();
+      for (const nsName of nsNames) {
+        const nsConfig = topicConfig?.namespaces?.[nsName];
+        const ids = Array.from(topicMarkers!.namespaces.get(nsName)!.keys()).sort((a, b) => a - b);
+        const idChildren: Record<string, SettingsTreeNode> = {};
+        for (const id of ids) {
+          idChildren[String(id)] = {
+            label: String(id),
+            visible: nsConfig?.hiddenIds?.includes(id) !== true,
+            error: topicErrors?.get(markerTransformErrorId(nsName, id)),
+          };
+        }
+        nsChildren[nsName] = {
+          label: nsName.length > 0 ? nsName : "(default)",
+          visible: nsConfig?.visible ?? true,
+          defaultExpansionState: "collapsed",
+          children: idChildren,
+        };
+      }
+
+      entries.push({
+        path: ["topics", topic.name],
+        node: {
+          fields: {
+            color: {
+              input: "color",
+              label: "Color override",
+              value: topicConfig?.color,
+            },
+          },
+          children:
+            nsNames.length > 0
+              ? { namespaces: { label: "Namespaces", children: nsChildren } }
+              : undefined,
+        },
+      });
+    }
+    return entries;
+  }
+
+  handleSettingsAction(action: SettingsTreeAction): void {
+    // ["topics", topic, "color"]
+    // ["topics", topic, "namespaces", ns, "visible"]
+    // ["topics", topic, "namespaces", ns, id, "visible"]
+    const { path, value } = action;
+    const topic = path[1]!;
+    if (path.length === 3 && path[2] === "color") {
+      this.setTopicColor(topic, typeof value === "string" ? value : undefined);
+    } else if (path[2] === "namespaces" && path[path.length - 1] === "visible") {
+      const ns = path[3]!;
+      const visible = value === true;
+      if (path.length === 5) {
+        this.setNamespaceVisible(topic, ns, visible);
+      } else if (path.length === 6) {
+        this.setMarkerVisible(topic, ns, Number(path[4]), visible);
+      }
+    }
+  }
+
+  removeTopic(topic: string): void {
+    const topicMarkers = this.topics.get(topic);
+    if (topicMarkers) {
+      this.remove(topicMarkers);
+      topicMarkers.dispose();
+      this.topics.delete(topic);
+    }
+  }
+
+  seekBackward(currentTime: bigint): void {
+    for (const topicMarkers of this.topics.values()) {
+      topicMarkers.seekBackward(currentTime);
     }
-    topicMarkers.addMarkerMessage(marker);
   }
 
   startFrame(currentTime: bigint): void {
@@ -38,4 +190,36 @@ export class Markers extends THREE.Object3D {
       topicMarker.startFrame(currentTime, renderFrameId, fixedFrameId);
     }
   }
+
+  private _topicMarkers(topic: string): TopicMarkers {
+    let topicMarkers = this.topics.get(topic);
+    if (!topicMarkers) {
+      topicMarkers = new TopicMarkers(topic, this.renderer);
+      this.topics.set(topic, topicMarkers);
+      this.add(topicMarkers);
+    }
+    return topicMarkers;
+  }
+
+  private _updateNamespaceConfig(
+    topic: string,
+    ns: string,
+    updater: (nsConfig: MarkerNamespaceConfig) => MarkerNamespaceConfig,
+  ): void {
+    this.renderer.updateConfig((config) => {
+      const topicConfig = config.topics[topic] ?? {};
+      const namespaces = topicConfig.namespaces ?? {};
+      return {
+        ...config,
+        topics: {
+          ...config.topics,
+          [topic]: {
+            ...topicConfig,
+            namespaces: { ...namespaces, [ns]: updater(namespaces[ns] ?? {}) },
+          },
+        },
+      };
+    });
+    this.topics.get(topic)?.updateVisibility();
+  }
 }
@@ -0,0 +1,406 @@
+import * as THREE from "three";
+
+import { Renderer } from "../Renderer";
+import { OccupancyGridColorScheme, OccupancyGridConfig } from "../config";
+import { Grid, GRID_DATATYPES, gridToOccupancyGrid } from "../foxglove";
+import {
+  OccupancyGrid,
+  OccupancyGridUpdate,
+  OCCUPANCY_GRID_DATATYPES,
+  Pose,
+  rosTimeToNanoSec,
+} from "../ros";
+import { SettingsTreeAction, SettingsTreeContributor, SettingsTreeEntry } from "../settings";
+import { reportTransformFailure, updatePose } from "../updatePose";
+
+const DEFAULT_COLOR_SCHEME: OccupancyGridColorScheme = "map";
+const DEFAULT_ALPHA = 0.7;
+const COLOR_SCHEMES: ReadonlyArray<OccupancyGridColorScheme> = ["map", "costmap", "raw"];
+
+// map_msgs/OccupancyGridUpdate messages are published on the grid topic with
+// this suffix, following the RViz convention
+const UPDATES_TOPIC_SUFFIX = "_updates";
+
+const INVALID_OCCUPANCY_GRID = "INVALID_OCCUPANCY_GRID";
+const INVALID_OCCUPANCY_GRID_UPDATE = "INVALID_OCCUPANCY_GRID_UPDATE";
+const INVALID_GRID = "INVALID_GRID";
+const NON_SQUARE_GRID_CELLS = "NON_SQUARE_GRID_CELLS";
+
+type OccupancyGridRenderable = THREE.Object3D & {
+  userData: {
+    topic: string;
+    occupancyGrid: OccupancyGrid;
+    // Cell values, including any partial updates applied since the last full grid
+    values: Int8Array;
+    // sRGB RGBA texture data, one texel per cell
+    rgba: Uint8Array;
+    pose: Pose;
+    srcTime: bigint;
+    texture: THREE.DataTexture;
+    material: THREE.MeshBasicMaterial;
+    mesh: THREE.Mesh<THREE.PlaneGeometry, THREE.MeshBasicMaterial>;
+  };
+};
+
+let planeGeometry: THREE.PlaneGeometry | undefined;
+
+export class OccupancyGrids extends THREE.Object3D implements SettingsTreeContributor {
+  renderer: Renderer;
+  renderables = new Map<string, OccupancyGridRenderable>();
+
+  constructor(renderer: Renderer) {
+    super();
+    this.renderer = renderer;
+  }
+
+  dispose(): void {
+    for (const renderable of this.renderables.values()) {
+      disposeRenderable(renderable);
+    }
+    this.children.length = 0;
+    this.renderables.clear();
+  }
+
+  removeTopic(topic: string): void {
+    const renderable = this.renderables.get(topic);
+    if (renderable) {
+      this.remove(renderable);
+      disposeRenderable(renderable);
+      this.renderables.delete(topic);
+    }
+  }
+
+  addOccupancyGridMessage(topic: string, occupancyGrid: OccupancyGrid): void {
+    const { width, height } = occupancyGrid.info;
+    if (occupancyGrid.data.length !== width * height) {
+      this.renderer.topicErrors.add(
+        topic,
+        INVALID_OCCUPANCY_GRID,
+        `OccupancyGrid data length ${occupancyGrid.data.length} does not match ${width}x${height}`,
+      );
+      return;
+    }
+    this.renderer.topicErrors.remove(topic, INVALID_OCCUPANCY_GRID);
+
+    let renderable = this.renderables.get(topic);
+    const prevInfo = renderable?.userData.occupancyGrid.info;
+    if (renderable && (prevInfo?.width !== width || prevInfo.height !== height)) {
+      // Textures can't be resized, so start over when the grid size changes
+      this.removeTopic(topic);
+      renderable = undefined;
+    }
+    if (!renderable) {
+      renderable = this._createRenderable(topic, occupancyGrid);
+      this.add(renderable);
+      this.renderables.set(topic, renderable);
+    }
+
+    renderable.userData.occupancyGrid = occupancyGrid;
+    renderable.userData.values.set(occupancyGrid.data);
+    renderable.userData.pose = occupancyGrid.info.origin;
+    renderable.userData.srcTime = rosTimeToNanoSec(occupancyGrid.header.stamp);
+
+    const resolution = occupancyGrid.info.resolution;
+    renderable.userData.mesh.scale.set(width * resolution, height * resolution, 1);
+
+    this._updateTexture(renderable);
+  }
+
+  /**
+   * Apply a partial update to the grid published on the topic this update
+   * topic belongs to. Only the updated region of the texture is uploaded.
+   */
+  addOccupancyGridUpdateMessage(updateTopic: string, update: OccupancyGridUpdate): void {
+    const topic = updateTopic.endsWith(UPDATES_TOPIC_SUFFIX)
+      ? updateTopic.slice(0, -UPDATES_TOPIC_SUFFIX.length)
+      : updateTopic;
+    const renderable = this.renderables.get(topic);
+    if (!renderable) {
+      // Updates that arrive before the full grid can't be applied
+      return;
+    }
+
+    const { width: gridWidth, height: gridHeight } = renderable.userData.occupancyGrid.info;
+    const { x, y, width, height, data } = update;
+    if (
+      x < 0 ||
+      y < 0 ||
+      x + width > gridWidth ||
+      y + height > gridHeight ||
+      data.length !== width * height
+    ) {
+      this.renderer.topicErrors.add(
+        updateTopic,
+        INVALID_OCCUPANCY_GRID_UPDATE,
+        `OccupancyGridUpdate ${width}x${height} at (${x}, ${y}) does not fit the ${gridWidth}x${gridHeight} grid on ${topic}`,
+      );
+      return;
+    }
+    this.renderer.topicErrors.remove(updateTopic, INVALID_OCCUPANCY_GRID_UPDATE);
+    if (width === 0 || height === 0) {
+      return;
+    }
+
+    const { values, rgba, texture } = renderable.userData;
+    const palette = this._palette(topic);
+    const patch = new Uint8Array(width * height * 4);
+    for (let row = 0; row < height; row++) {
+      for (let col = 0; col < width; col++) {
+        const value = data[row * width + col]!;
+        const gridIndex = (y + row) * gridWidth + (x + col);
+        values[gridIndex] = value;
+        writeColor(palette, value, patch, row * width + col);
+        writeColor(palette, value, rgba, gridIndex);
+      }
+    }
+
+    const patchTexture = new THREE.DataTexture(patch, width, height, THREE.RGBAFormat);
+    this.renderer.gl.copyTextureToTexture(new THREE.Vector2(x, y), patchTexture, texture);
+    patchTexture.dispose();
+  }
+
+  /** Draw the first field of a foxglove.Grid as an occupancy grid */
+  addGridMessage(topic: string, grid: Grid): void {
+    const topicErrors = this.renderer.topicErrors;
+    const occupancyGrid = gridToOccupancyGrid(grid);
+    if (!occupancyGrid) {
+      topicErrors.add(topic, INVALID_GRID, "Grid has no cells or no numeric field");
+      return;
+    }
+    topicErrors.remove(topic, INVALID_GRID);
+    if (grid.cell_size.x !== grid.cell_size.y) {
+      topicErrors.add(
+        topic,
+        NON_SQUARE_GRID_CELLS,
+        `Grid cell size ${grid.cell_size.x}x${grid.cell_size.y} is not square, drawing ${grid.cell_size.x}x${grid.cell_size.x} cells`,
+      );
+    } else {
+      topicErrors.remove(topic, NON_SQUARE_GRID_CELLS);
+    }
+    this.addOccupancyGridMessage(topic, occupancyGrid);
+  }
+
+  startFrame(currentTime: bigint): void {
+    const renderFrameId = this.renderer.renderFrameId;
+    const fixedFrameId = this.renderer.fixedFrameId;
+    if (!renderFrameId || !fixedFrameId) {
+      return;
+    }
+
+    for (const [topic, renderable] of this.renderables) {
+      const failure = updatePose(
+        renderable,
+        this.renderer.transformTree,
+        renderFrameId,
+        fixedFrameId,
+        renderable.userData.occupancyGrid.header.frame_id,
+        currentTime,
+        renderable.userData.srcTime,
+      );
+      reportTransformFailure(this.renderer.topicErrors, topic, failure);
+    }
+  }
+
+  settingsNodes(): SettingsTreeEntry[] {
+    const entries: SettingsTreeEntry[] = [];
+    for (const topic of this.renderer.topics) {
+      if (!OCCUPANCY_GRID_DATATYPES.has(topic.datatype) && !GRID_DATATYPES.has(topic.datatype)) {
+        continue;
+      }
+      const config = this.renderer.config.topics[topic.name]?.occupancyGrid ?? {};
+      entries.push({
+        path: ["topics", topic.name],
+        node: {
+          fields: {
+            colorScheme: {
+              input: "select",
+              label: "Color scheme",
+              value: config.colorScheme ?? DEFAULT_COLOR_SCHEME,
+              options: COLOR_SCHEMES.map((scheme) => ({ label: scheme, value: scheme })),
+            },
+            alpha: {
+              input: "number",
+              label: "Alpha",
+              value: config.alpha,
+              placeholder: String(DEFAULT_ALPHA),
+              min: 0,
+              max: 1,
+              step: 0.1,
+            },
+          },
+        },
+      });
+    }
+    return entries;
+  }
+
+  handleSettingsAction(action: SettingsTreeAction): void {
+    // ["topics", topic, "colorScheme" | "alpha"]
+    const { path, value } = action;
+    const key = path[2];
+    if (path.length !== 3 || (key !== "colorScheme" && key !== "alpha")) {
+      return;
+    }
+    const topic = path[1]!;
+    this.renderer.updateConfig((config) => {
+      const topicConfig = config.topics[topic] ?? {};
+      return {
+        ...config,
+        topics: {
+          ...config.topics,
+          [topic]: {
+            ...topicConfig,
+            occupancyGrid: { ...topicConfig.occupancyGrid, [key]: value },
+          },
+        },
+      };
+    });
+
+    const renderable = this.renderables.get(topic);
+    if (renderable) {
+      this._updateTexture(renderable);
+    }
+  }
+
+  private _config(topic: string): OccupancyGridConfig {
+    return this.renderer.config.topics[topic]?.occupancyGrid ?? {};
+  }
+
+  private _palette(topic: string): Uint8Array {
+    const config = this._config(topic);
+    return colorPalette(config.colorScheme ?? DEFAULT_COLOR_SCHEME);
+  }
+
+  private _createRenderable(topic: string, occupancyGrid: OccupancyGrid): OccupancyGridRenderable {
+    const { width, height } = occupancyGrid.info;
+    const rgba = new Uint8Array(width * height * 4);
+    const texture = new THREE.DataTexture(rgba, width, height, THREE.RGBAFormat);
+    texture.magFilter = THREE.NearestFilter;
+    texture.minFilter = THREE.LinearFilter;
+    texture.generateMipmaps = false;
+    texture.encoding = THREE.sRGBEncoding;
+
+    const material = new THREE.MeshBasicMaterial({ map: texture, side: THREE.DoubleSide });
+    const mesh = new THREE.Mesh(OccupancyGrids.geometry(), material);
+
+    const renderable = new THREE.Object3D() as OccupancyGridRenderable;
+    renderable.name = topic;
+    renderable.userData = {
+      topic,
+      occupancyGrid,
+      values: new Int8Array(width * height),
+      rgba,
+      pose: occupancyGrid.info.origin,
+      srcTime: rosTimeToNanoSec(occupancyGrid.header.stamp),
+      texture,
+      material,
+      mesh,
+    };
+    renderable.add(mesh);
+    return renderable;
+  }
+
+  private _updateTexture(renderable: OccupancyGridRenderable): void {
+    const { topic, values, rgba, texture, material } = renderable.userData;
+    const config = this._config(topic);
+    const palette = this._palette(topic);
+
+    for (let i = 0; i < values.length; i++) {
+      writeColor(palette, values[i]!, rgba, i);
+    }
+    texture.needsUpdate = true;
+
+    const alpha = config.alpha ?? DEFAULT_ALPHA;
+    const transparent = alpha < 1 || config.colorScheme === "costmap";
+    material.opacity = alpha;
+    if (material.transparent !== transparent) {
+      material.transparent = transparent;
+      material.depthWrite = !transparent;
+      material.needsUpdate = true;
+    }
+  }
+
+  // A unit square with its bottom-left corner at the origin, so the grid
+  // origin pose places the (0, 0) cell
+  static geometry(): THREE.PlaneGeometry {
+    if (!planeGeometry) {
+      planeGeometry = new THREE.PlaneGeometry(1, 1);
+      planeGeometry.translate(0.5, 0.5, 0);
+      planeGeometry.computeBoundingSphere();
+    }
+    return planeGeometry;
+  }
+}
+
+function disposeRenderable(renderable: OccupancyGridRenderable): void {
+  renderable.userData.texture.dispose();
+  renderable.userData.material.dispose();
+}
+
+function writeColor(palette: Uint8Array, value: number, output: Uint8Array, index: number): void {
+  // Cell values are int8, index the palette by their uint8 representation
+  const p = (value & 0xff) * 4;
+  output[index * 4 + 0] = palette[p + 0]!;
+  output[index * 4 + 1] = palette[p + 1]!;
+  output[index * 4 + 2] = palette[p + 2]!;
+  output[index * 4 + 3] = palette[p + 3]!;
+}
+
+const palettes = new Map<OccupancyGridColorScheme, Uint8Array>();
+
+// 256 sRGB RGBA colors indexed by the uint8 representation of a cell value,
+// following the RViz map and costmap palettes
+function colorPalette(scheme: OccupancyGridColorScheme): Uint8Array {
+  let palette = palettes.get(scheme);
+  if (palette) {
+    return palette;
+  }
+  palette = new Uint8Array(256 * 4);
+  const set = (i: number, r: number, g: number, b: number, a: number) => {
+    palette![i * 4 + 0] = r;
+    palette![i * 4 + 1] = g;
+    palette![i * 4 + 2] = b;
+    palette![i * 4 + 3] = a;
+  };
+
+  for (let i = 0; i < 256; i++) {
+    switch (scheme) {
+      case "map":
+        if (i <= 100) {
+          // Free (0) is white, occupied (100) is black
+          const v = Math.round(255 - (255 * i) / 100);
+          set(i, v, v, v, 255);
+        } else {
+          // Unknown (-1) and invalid values
+          set(i, 0x70, 0x89, 0x86, 255);
+        }
+        break;
+      case "costmap":
+        if (i === 0) {
+          set(i, 0, 0, 0, 0);
+        } else if (i <= 98) {
+          // Blue to red ramp
+          const v = Math.round((255 * i) / 100);
+          set(i, v, 0, 255 - v, 255);
+        } else if (i === 99) {
+          // Inscribed obstacle
+          set(i, 0, 255, 255, 255);
+        } else if (i === 100) {
+          // Lethal obstacle
+          set(i, 255, 0, 255, 255);
+        } else if (i === 255) {
+          // Unknown (-1)
+          set(i, 0x70, 0x89, 0x86, 64);
+        } else {
+          // Invalid values
+          set(i, 0, 255, 0, 255);
+        }
+        break;
+      case "raw":
+        set(i, i, i, i, 255);
+        break;
+    }
+  }
+  palettes.set(scheme, palette);
+  return palette;
+}
@@ -0,0 +1,336 @@
+import * as THREE from "three";
+
+import { Renderer } from "../Renderer";
+import { OdometryConfig, OdometryTrailMode } from "../config";
+import { getRotationTo } from "../math";
+import { MarkerType, Odometry, ODOMETRY_DATATYPES, rosTimeToNanoSec, Vector3 } from "../ros";
+import { SettingsTreeAction, SettingsTreeContributor, SettingsTreeEntry } from "../settings";
+import { fromSec } from "../transforms/time";
+import { reportTransformFailure, updatePose } from "../updatePose";
+import { RenderableArrow } from "./markers/RenderableArrow";
+import { RenderableLineStrip } from "./markers/RenderableLineStrip";
+import {
+  arrowMarker,
+  colorFromHex,
+  createPoseRenderable,
+  DEFAULT_POSE_COLOR,
+  disposePoseRenderable,
+  handlePoseSettingsAction,
+  poseSettingsFields,
+  PoseRenderable,
+  syntheticMarker,
+  updatePoseRenderable,
+} from "./poseCommon";
+
+const DEFAULT_VELOCITY_SCALE = 1; // [m per m/s]
+const DEFAULT_TRAIL_POSES = 100;
+const DEFAULT_TRAIL_SECONDS = 10;
+const DEFAULT_LINE_WIDTH = 0.02; // [m]
+const VELOCITY_COLOR = "#1ad94c";
+const TRAIL_MODES: ReadonlyArray<OdometryTrailMode> = ["off", "poses", "seconds"];
+const ODOMETRY_KEYS = new Set<string>([
+  "showVelocity",
+  "velocityScale",
+  "trail",
+  "trailLength",
+  "lineWidth",
+]);
+
+// Marker ids of the synthetic markers drawn for each topic. The pose arrow
+// uses id 0
+const VELOCITY_MARKER_ID = 1;
+const TRAIL_MARKER_ID = 2;
+
+const UNIT_X = new THREE.Vector3(1, 0, 0);
+const tempVelocity = new THREE.Vector3();
+
+type TrailPoint = { stamp: bigint; position: Vector3 };
+
+type OdometryRenderable = PoseRenderable & {
+  userData: {
+    odometry: Odometry;
+    velocityArrow: RenderableArrow | undefined;
+    trail: RenderableLineStrip | undefined;
+    // Previous positions in the `frameId` frame, oldest first
+    history: TrailPoint[];
+  };
+};
+
+export class Odometries extends THREE.Object3D implements SettingsTreeContributor {
+  renderer: Renderer;
+  renderables = new Map<string, OdometryRenderable>();
+
+  constructor(renderer: Renderer) {
+    super();
+    this.renderer = renderer;
+  }
+
+  dispose(): void {
+    for (const renderable of this.renderables.values()) {
+      this._disposeRenderable(renderable);
+    }
+    this.children.length = 0;
+    this.renderables.clear();
+  }
+
+  removeTopic(topic: string): void {
+    const renderable = this.renderables.get(topic);
+    if (renderable) {
+      this.remove(renderable);
+      this._disposeRenderable(renderable);
+      this.renderables.delete(topic);
+    }
+  }
+
+  addOdometryMessage(topic: string, odometry: Odometry): void {
+    const frameId = odometry.header.frame_id;
+    const stamp = rosTimeToNanoSec(odometry.header.stamp);
+    let renderable = this.renderables.get(topic);
+    if (!renderable) {
+      renderable = createPoseRenderable(topic, frameId, stamp) as OdometryRenderable;
+      renderable.userData.velocityArrow = undefined;
+      renderable.userData.trail = undefined;
+      renderable.userData.history = [];
+      this.add(renderable);
+      this.renderables.set(topic, renderable);
+    }
+
+    // The trail is drawn in the odometry frame, so it restarts if that changes
+    if (renderable.userData.frameId !== frameId) {
+      renderable.userData.history = [];
+    }
+    renderable.userData.odometry = odometry;
+    renderable.userData.frameId = frameId;
+    renderable.userData.srcTime = stamp;
+    const { x, y, z } = odometry.pose.pose.position;
+    renderable.userData.history.push({ stamp, position: { x, y, z } });
+
+    this._updateRenderable(renderable);
+  }
+
+  /** Drop trail positions newer than `currentTime` after seeking backward */
+  seekBackward(currentTime: bigint): void {
+    for (const renderable of this.renderables.values()) {
+      const history = renderable.userData.history;
+      const count = history.findIndex((point) => point.stamp > currentTime);
+      if (count !== -1) {
+        history.length = count;
+        this._updateTrail(renderable);
+      }
+    }
+  }
+
+  startFrame(currentTime: bigint): void {
+    const renderFrameId = this.renderer.renderFrameId;
+    const fixedFrameId = this.renderer.fixedFrameId;
+    if (!renderFrameId || !fixedFrameId) {
+      return;
+    }
+
+    for (const [topic, renderable] of this.renderables) {
+      const failure = updatePose(
+        renderable,
+        this.renderer.transformTree,
+        renderFrameId,
+        fixedFrameId,
+        renderable.userData.frameId,
+        currentTime,
+        renderable.userData.srcTime,
+      );
+      reportTransformFailure(this.renderer.topicErrors, topic, failure);
+    }
+  }
+
+  settingsNodes(): SettingsTreeEntry[] {
+    const entries: SettingsTreeEntry[] = [];
+    for (const topic of this.renderer.topics) {
+      if (!ODOMETRY_DATATYPES.has(topic.datatype)) {
+        continue;
+      }
+      const config = this._config(topic.name);
+      const trail = config.trail ?? "off";
+      entries.push({
+        path: ["topics", topic.name],
+        node: {
+          fields: {
+            ...poseSettingsFields(this.renderer, topic.name, true),
+            showVelocity: {
+              input: "boolean",
+              label: "Velocity",
+              value: config.showVelocity ?? true,
+            },
+            velocityScale:
+              config.showVelocity !== false
+                ? {
+                    input: "number",
+                    label: "Velocity scale",
+                    value: config.velocityScale,
+                    placeholder: String(DEFAULT_VELOCITY_SCALE),
+                    min: 0,
+                    step: 0.1,
+                  }
+                : undefined,
+            trail: {
+              input: "select",
+              label: "Trail",
+              value: trail,
+              options: TRAIL_MODES.map((mode) => ({ label: mode, value: mode })),
+            },
+            trailLength:
+              trail !== "off"
+                ? {
+                    input: "number",
+                    label: trail === "poses" ? "Trail poses" : "Trail seconds",
+                    value: config.trailLength,
+                    placeholder: String(
+                      trail === "poses" ? DEFAULT_TRAIL_POSES : DEFAULT_TRAIL_SECONDS,
+                    ),
+                    min: 0,
+                    step: trail === "poses" ? 1 : 0.5,
+                  }
+                : undefined,
+            lineWidth:
+              trail !== "off"
+                ? {
+                    input: "number",
+                    label: "Trail width",
+                    value: config.lineWidth,
+                    placeholder: String(DEFAULT_LINE_WIDTH),
+                    min: 0,
+                    step: 0.01,
+                  }
+                : undefined,
+          },
+        },
+      });
+    }
+    return entries;
+  }
+
+  handleSettingsAction(action: SettingsTreeAction): void {
+    // ["topics", topic, key]
+    const { path, value } = action;
+    const key = path[2];
+    let topic: string | undefined;
+    if (path.length === 3 && key != undefined && ODOMETRY_KEYS.has(key)) {
+      const odometryTopic = path[1]!;
+      this.renderer.updateConfig((config) => {
+        const topicConfig = config.topics[odometryTopic] ?? {};
+        return {
+          ...config,
+          topics: {
+            ...config.topics,
+            [odometryTopic]: {
+              ...topicConfig,
+              odometry: { ...topicConfig.odometry, [key]: value },
+            },
+          },
+        };
+      });
+      topic = odometryTopic;
+    } else {
+      topic = handlePoseSettingsAction(this.renderer, action);
+    }
+
+    const renderable = topic != undefined ? this.renderables.get(topic) : undefined;
+    if (renderable) {
+      this._updateRenderable(renderable);
+    }
+  }
+
+  private _config(topic: string): OdometryConfig {
+    return this.renderer.config.topics[topic]?.odometry ?? {};
+  }
+
+  private _updateRenderable(renderable: OdometryRenderable): void {
+    const { odometry } = renderable.userData;
+    updatePoseRenderable(this.renderer, renderable, [odometry.pose.pose], odometry.pose.covariance);
+    this._updateVelocity(renderable);
+    this._updateTrail(renderable);
+  }
+
+  private _updateVelocity(renderable: OdometryRenderable): void {
+    const { topic, odometry } = renderable.userData;
+    const config = this._config(topic);
+    const linear = odometry.twist.twist.linear;
+    tempVelocity.set(linear.x, linear.y, linear.z);
+    const length = tempVelocity.length() * (config.velocityScale ?? DEFAULT_VELOCITY_SCALE);
+
+    if (config.showVelocity === false || !(length > 1e-6)) {
+      if (renderable.userData.velocityArrow) {
+        renderable.userData.velocityArrow.visible = false;
+      }
+      return;
+    }
+
+    const marker = arrowMarker(VELOCITY_MARKER_ID, colorFromHex(VELOCITY_COLOR, 1), length);
+    let arrow = renderable.userData.velocityArrow;
+    if (!arrow) {
+      arrow = new RenderableArrow(topic, marker, this.renderer);
+      renderable.userData.velocityArrow = arrow;
+      renderable.add(arrow);
+    } else {
+      arrow.update(marker);
+    }
+    arrow.visible = true;
+
+    // The twist is expressed in the child frame, which is the odometry pose
+    const { position: p, orientation: q } = odometry.pose.pose;
+    arrow.position.set(p.x, p.y, p.z);
+    arrow.quaternion.set(q.x, q.y, q.z, q.w);
+    arrow.quaternion.multiply(getRotationTo(UNIT_X, tempVelocity));
+  }
+
+  private _updateTrail(renderable: OdometryRenderable): void {
+    const { topic, history } = renderable.userData;
+    const config = this._config(topic);
+    const trail = config.trail ?? "off";
+
+    // Prune the history to the configured trail length. The latest position
+    // is always kept so a trail can start as soon as it is enabled
+    if (trail === "poses") {
+      const maxPoses = Math.max(1, Math.floor(config.trailLength ?? DEFAULT_TRAIL_POSES));
+      if (history.length > maxPoses) {
+        history.splice(0, history.length - maxPoses);
+      }
+    } else {
+      const latest = history[history.length - 1];
+      const maxAge = fromSec(trail === "seconds" ? config.trailLength ?? DEFAULT_TRAIL_SECONDS : 0);
+      const count = latest ? history.findIndex((point) => latest.stamp - point.stamp <= maxAge) : 0;
+      if (count > 0) {
+        history.splice(0, count);
+      }
+    }
+
+    if (trail === "off" || history.length < 2) {
+      if (renderable.userData.trail) {
+        renderable.userData.trail.visible = false;
+      }
+      return;
+    }
+
+    const topicColor = this.renderer.config.topics[topic]?.color;
+    const marker = syntheticMarker(
+      MarkerType.LINE_STRIP,
+      TRAIL_MARKER_ID,
+      { x: config.lineWidth ?? DEFAULT_LINE_WIDTH, y: 0, z: 0 },
+      colorFromHex(topicColor ?? DEFAULT_POSE_COLOR, 1),
+      history.map((point) => point.position),
+    );
+    if (!renderable.userData.trail) {
+      renderable.userData.trail = new RenderableLineStrip(topic, marker, this.renderer);
+      renderable.add(renderable.userData.trail);
+    } else {
+      renderable.userData.trail.update(marker);
+    }
+    renderable.userData.trail.visible = true;
+  }
+
+  private _disposeRenderable(renderable: OdometryRenderable): void {
+    renderable.userData.velocityArrow?.dispose();
+    renderable.userData.velocityArrow = undefined;
+    renderable.userData.trail?.dispose();
+    renderable.userData.trail = undefined;
+    disposePoseRenderable(this.renderer, renderable);
+  }
+}
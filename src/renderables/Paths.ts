@@ -0,0 +1,197 @@
+import * as THREE from "three";
+
+import { Renderer } from "../Renderer";
+import { PathConfig } from "../config";
+import { MarkerType, Path, PATH_DATATYPES, rosTimeToNanoSec } from "../ros";
+import { SettingsTreeAction, SettingsTreeContributor, SettingsTreeEntry } from "../settings";
+import { reportTransformFailure, updatePose } from "../updatePose";
+import { RenderableLineStrip } from "./markers/RenderableLineStrip";
+import {
+  colorFromHex,
+  createPoseRenderable,
+  DEFAULT_POSE_COLOR,
+  disposePoseRenderable,
+  PoseRenderable,
+  syntheticMarker,
+  updatePoseItems,
+} from "./poseCommon";
+
+const DEFAULT_LINE_WIDTH = 0.05; // [m]
+const DEFAULT_AXIS_LENGTH = 0.3; // [m]
+
+type PathRenderable = PoseRenderable & {
+  userData: {
+    path: Path;
+    line: RenderableLineStrip | undefined;
+  };
+};
+
+export class Paths extends THREE.Object3D implements SettingsTreeContributor {
+  renderer: Renderer;
+  renderables = new Map<string, PathRenderable>();
+
+  constructor(renderer: Renderer) {
+    super();
+    this.renderer = renderer;
+  }
+
+  dispose(): void {
+    for (const renderable of this.renderables.values()) {
+      this._disposeRenderable(renderable);
+    }
+    this.children.length = 0;
+    this.renderables.clear();
+  }
+
+  removeTopic(topic: string): void {
+    const renderable = this.renderables.get(topic);
+    if (renderable) {
+      this.remove(renderable);
+      this._disposeRenderable(renderable);
+      this.renderables.delete(topic);
+    }
+  }
+
+  addPathMessage(topic: string, path: Path): void {
+    let renderable = this.renderables.get(topic);
+    if (!renderable) {
+      renderable = createPoseRenderable(
+        topic,
+        path.header.frame_id,
+        rosTimeToNanoSec(path.header.stamp),
+      ) as PathRenderable;
+      renderable.userData.line = undefined;
+      this.add(renderable);
+      this.renderables.set(topic, renderable);
+    }
+    renderable.userData.path = path;
+    renderable.userData.frameId = path.header.frame_id;
+    renderable.userData.srcTime = rosTimeToNanoSec(path.header.stamp);
+    this._updateRenderable(renderable);
+  }
+
+  startFrame(currentTime: bigint): void {
+    const renderFrameId = this.renderer.renderFrameId;
+    const fixedFrameId = this.renderer.fixedFrameId;
+    if (!renderFrameId || !fixedFrameId) {
+      return;
+    }
+
+    for (const [topic, renderable] of this.renderables) {
+      const failure = updatePose(
+        renderable,
+        this.renderer.transformTree,
+        renderFrameId,
+        fixedFrameId,
+        renderable.userData.frameId,
+        currentTime,
+        renderable.userData.srcTime,
+      );
+      reportTransformFailure(this.renderer.topicErrors, topic, failure);
+    }
+  }
+
+  settingsNodes(): SettingsTreeEntry[] {
+    const entries: SettingsTreeEntry[] = [];
+    for (const topic of this.renderer.topics) {
+      if (!PATH_DATATYPES.has(topic.datatype)) {
+        continue;
+      }
+      const topicConfig = this.renderer.config.topics[topic.name];
+      const config = topicConfig?.path ?? {};
+      entries.push({
+        path: ["topics", topic.name],
+        node: {
+          fields: {
+            color: {
+              input: "color",
+              label: "Color",
+              value: topicConfig?.color ?? DEFAULT_POSE_COLOR,
+            },
+            lineWidth: {
+              input: "number",
+              label: "Line width",
+              value: config.lineWidth,
+              placeholder: String(DEFAULT_LINE_WIDTH),
+              min: 0,
+              step: 0.01,
+            },
+            showAxes: { input: "boolean", label: "Show axes", value: config.showAxes ?? false },
+            axisLength:
+              config.showAxes === true
+                ? {
+                    input: "number",
+                    label: "Axis length",
+                    value: config.axisLength,
+                    placeholder: String(DEFAULT_AXIS_LENGTH),
+                    min: 0,
+                    step: 0.1,
+                  }
+                : undefined,
+          },
+        },
+      });
+    }
+    return entries;
+  }
+
+  handleSettingsAction(action: SettingsTreeAction): void {
+    // ["topics", topic, key]
+    const { path, value } = action;
+    if (path.length !== 3 || path[2] === "visible") {
+      return;
+    }
+    const topic = path[1]!;
+    const key = path[2] as keyof PathConfig | "color";
+    this.renderer.updateConfig((config) => {
+      const topicConfig = config.topics[topic] ?? {};
+      const newTopicConfig =
+        key === "color"
+          ? { ...topicConfig, color: typeof value === "string" ? value : undefined }
+          : { ...topicConfig, path: { ...topicConfig.path, [key]: value } };
+      return { ...config, topics: { ...config.topics, [topic]: newTopicConfig } };
+    });
+
+    const renderable = this.renderables.get(topic);
+    if (renderable) {
+      this._updateRenderable(renderable);
+    }
+  }
+
+  private _updateRenderable(renderable: PathRenderable): void {
+    const { topic, path } = renderable.userData;
+    const topicConfig = this.renderer.config.topics[topic];
+    const config = topicConfig?.path ?? {};
+    const color = colorFromHex(topicConfig?.color ?? DEFAULT_POSE_COLOR, 1);
+    const lineWidth = config.lineWidth ?? DEFAULT_LINE_WIDTH;
+
+    // Poses are assumed to share the frame of the path header
+    const points = path.poses.map((poseStamped) => poseStamped.pose.position);
+    const marker = syntheticMarker(
+      MarkerType.LINE_STRIP,
+      0,
+      { x: lineWidth, y: 0, z: 0 },
+      color,
+      points,
+    );
+    if (!renderable.userData.line) {
+      renderable.userData.line = new RenderableLineStrip(topic, marker, this.renderer);
+      renderable.add(renderable.userData.line);
+    } else {
+      renderable.userData.line.update(marker);
+    }
+    // A line needs at least two points
+    renderable.userData.line.visible = points.length >= 2;
+
+    const axisPoses =
+      config.showAxes === true ? path.poses.map((poseStamped) => poseStamped.pose) : [];
+    const axisLength = config.axisLength ?? DEFAULT_AXIS_LENGTH;
+    updatePoseItems(this.renderer, renderable, axisPoses, "axis", axisLength, color);
+  }
+
+  private _disposeRenderable(renderable: PathRenderable): void {
+    renderable.userData.line?.dispose();
+    renderable.userData.line = undefined;
+    disposePoseRenderable(this.renderer, renderable);
+  }
+}
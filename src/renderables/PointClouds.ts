@@ -0,0 +1,316 @@
+import * as THREE from "three";
+
+import { Renderer } from "../Renderer";
+import { PointCloudColorMode, PointCloudConfig } from "../config";
+import { FieldReader, fieldTypeSize, getFieldReader, getPackedColorReader } from "../fieldReaders";
+import { FOXGLOVE_POINTCLOUD_DATATYPES, PointCloud, pointCloudToPointCloud2 } from "../foxglove";
+import { Pose, PointCloud2, PointField, POINTCLOUD_DATATYPES, rosTimeToNanoSec } from "../ros";
+import { SettingsTreeAction, SettingsTreeContributor, SettingsTreeEntry } from "../settings";
+import { makePose } from "../transforms";
+import { reportTransformFailure, updatePose } from "../updatePose";
+import {
+  createPointsRenderable,
+  disposePointsRenderable,
+  fillColorMapColors,
+  fillFlatColors,
+  finishPointsUpdate,
+  handlePointsSettingsAction,
+  pointsConfig,
+  pointsSettingsFields,
+  PointsRenderable,
+  resizePoints,
+  updatePointSize,
+} from "./pointsCommon";
+
+const COLOR_MODES: ReadonlyArray<PointCloudColorMode> = ["flat", "colormap", "rgb", "rgba"];
+
+const MISSING_XYZ = "MISSING_XYZ";
+const INVALID_POINT_STEP = "INVALID_POINT_STEP";
+const INSUFFICIENT_DATA = "INSUFFICIENT_DATA";
+const INVALID_COLOR_FIELD = "INVALID_COLOR_FIELD";
+
+// sRGB byte to linear float, for packed rgb/rgba colors
+const SRGB_TO_LINEAR = new Float32Array(256);
+for (let i = 0; i < 256; i++) {
+  const c = i / 255;
+  SRGB_TO_LINEAR[i] = c <= 0.04045 ? c / 12.92 : Math.pow((c + 0.055) / 1.055, 2.4);
+}
+
+type PointCloudRenderable = PointsRenderable & {
+  userData: {
+    pointCloud: PointCloud2;
+  };
+};
+
+export class PointClouds extends THREE.Object3D implements SettingsTreeContributor {
+  renderer: Renderer;
+  renderables = new Map<string, PointCloudRenderable>();
+
+  // Temporary storage for color field values, reused across messages. Float64
+  // holds both float field values and packed uint32 colors exactly
+  private _values = new Float64Array(0);
+
+  constructor(renderer: Renderer) {
+    super();
+    this.renderer = renderer;
+  }
+
+  dispose(): void {
+    for (const renderable of this.renderables.values()) {
+      disposePointsRenderable(renderable);
+    }
+    this.children.length = 0;
+    this.renderables.clear();
+  }
+
+  removeTopic(topic: string): void {
+    const renderable = this.renderables.get(topic);
+    if (renderable) {
+      this.remove(renderable);
+      disposePointsRenderable(renderable);
+      this.renderables.delete(topic);
+    }
+  }
+
+  /** Add a point cloud, optionally placed at `pose` in its header frame */
+  addPointCloud2Message(topic: string, pointCloud: PointCloud2, pose: Pose = makePose()): void {
+    let renderable = this.renderables.get(topic);
+    if (!renderable) {
+      renderable = createPointsRenderable(
+        topic,
+        rosTimeToNanoSec(pointCloud.header.stamp),
+      ) as PointCloudRenderable;
+      this.add(renderable);
+      this.renderables.set(topic, renderable);
+    }
+    renderable.userData.pointCloud = pointCloud;
+    renderable.userData.pose = pose;
+    renderable.userData.srcTime = rosTimeToNanoSec(pointCloud.header.stamp);
+    this._updateRenderable(renderable);
+  }
+
+  addPointCloudMessage(topic: string, pointCloud: PointCloud): void {
+    this.addPointCloud2Message(topic, pointCloudToPointCloud2(pointCloud), pointCloud.pose);
+  }
+
+  startFrame(currentTime: bigint): void {
+    const renderFrameId = this.renderer.renderFrameId;
+    const fixedFrameId = this.renderer.fixedFrameId;
+    if (!renderFrameId || !fixedFrameId) {
+      return;
+    }
+
+    for (const [topic, renderable] of this.renderables) {
+      const failure = updatePose(
+        renderable,
+        this.renderer.transformTree,
+        renderFrameId,
+        fixedFrameId,
+        renderable.userData.pointCloud.header.frame_id,
+        currentTime,
+        renderable.userData.srcTime,
+      );
+      reportTransformFailure(this.renderer.topicErrors, topic, failure);
+    }
+  }
+
+  settingsNodes(): SettingsTreeEntry[] {
+    const entries: SettingsTreeEntry[] = [];
+    for (const topic of this.renderer.topics) {
+      // Other topics can be drawn as point clouds too, such as depth images
+      if (
+        !POINTCLOUD_DATATYPES.has(topic.datatype) &&
+        !FOXGLOVE_POINTCLOUD_DATATYPES.has(topic.datatype) &&
+        !this.renderables.has(topic.name)
+      ) {
+        continue;
+      }
+      const config = pointsConfig(this.renderer, topic.name);
+      const renderable = this.renderables.get(topic.name);
+      const pointCloud = renderable?.userData.pointCloud;
+      entries.push({
+        path: ["topics", topic.name],
+        node: {
+          fields: pointsSettingsFields({
+            config,
+            renderable,
+            colorModes: COLOR_MODES,
+            colorMode: pointCloud ? resolveColorMode(config, pointCloud) : config.colorMode,
+            colorFields: pointCloud?.fields.map((field) => field.name) ?? [],
+            colorField: pointCloud ? resolveColorField(config, pointCloud) : config.colorField,
+          }),
+        },
+      });
+    }
+    return entries;
+  }
+
+  handleSettingsAction(action: SettingsTreeAction): void {
+    const topic = handlePointsSettingsAction(this.renderer, action);
+    const renderable = topic != undefined ? this.renderables.get(topic) : undefined;
+    if (renderable) {
+      this._updateRenderable(renderable);
+    }
+  }
+
+  private _updateRenderable(renderable: PointCloudRenderable): void {
+    const { topic, pointCloud, material } = renderable.userData;
+    const config = pointsConfig(this.renderer, topic);
+    const topicErrors = this.renderer.topicErrors;
+
+    updatePointSize(renderable, config);
+
+    const xField = findField(pointCloud, "x");
+    const yField = findField(pointCloud, "y");
+    const zField = findField(pointCloud, "z");
+    const xReader = xField ? getFieldReader(xField, pointCloud.is_bigendian) : undefined;
+    const yReader = yField ? getFieldReader(yField, pointCloud.is_bigendian) : undefined;
+    const zReader = zField ? getFieldReader(zField, pointCloud.is_bigendian) : undefined;
+    if (!xReader || !yReader || !zReader) {
+      topicErrors.add(topic, MISSING_XYZ, "PointCloud2 is missing readable x, y, or z fields");
+      this._clearPoints(renderable);
+      return;
+    }
+    topicErrors.remove(topic, MISSING_XYZ);
+
+    const { width, height, point_step: pointStep, row_step: rowStep } = pointCloud;
+    if (pointStep <= 0 || rowStep < width * pointStep) {
+      topicErrors.add(
+        topic,
+        INVALID_POINT_STEP,
+        `PointCloud2 has an invalid point_step (${pointStep}) or row_step (${rowStep})`,
+      );
+      this._clearPoints(renderable);
+      return;
+    }
+    topicErrors.remove(topic, INVALID_POINT_STEP);
+
+    // Some data sources deliver `data` as a plain array of bytes
+    const data =
+      pointCloud.data instanceof Uint8Array ? pointCloud.data : Uint8Array.from(pointCloud.data);
+    if (height > 0 && data.byteLength < (height - 1) * rowStep + width * pointStep) {
+      topicErrors.add(
+        topic,
+        INSUFFICIENT_DATA,
+        `PointCloud2 data is ${data.byteLength} bytes, too short for ${width}x${height} points`,
+      );
+      this._clearPoints(renderable);
+      return;
+    }
+    topicErrors.remove(topic, INSUFFICIENT_DATA);
+
+    const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+    const colorMode = resolveColorMode(config, pointCloud);
+    let colorFieldName: string | undefined;
+    let colorReader: FieldReader | undefined;
+    if (colorMode === "colormap") {
+      colorFieldName = resolveColorField(config, pointCloud);
+      const field = findField(pointCloud, colorFieldName);
+      colorReader = field ? getFieldReader(field, pointCloud.is_bigendian) : undefined;
+    } else if (colorMode === "rgb" || colorMode === "rgba") {
+      colorFieldName = colorMode;
+      const field = findField(pointCloud, colorFieldName);
+      colorReader = field ? getPackedColorReader(field, pointCloud.is_bigendian) : undefined;
+    }
+    if (colorMode !== "flat" && !colorReader) {
+      topicErrors.add(
+        topic,
+        INVALID_COLOR_FIELD,
+        `PointCloud2 has no usable "${colorFieldName ?? ""}" field for color mode "${colorMode}"`,
+      );
+    } else {
+      topicErrors.remove(topic, INVALID_COLOR_FIELD);
+    }
+
+    // Decode positions, skipping points with non-finite coordinates
+    const maxPoints = width * height;
+    const { positionAttribute, colorAttribute } = renderable.userData;
+    resizePoints(renderable, maxPoints);
+    if (this._values.length < maxPoints) {
+      this._values = new Float64Array(maxPoints);
+    }
+    const positions = positionAttribute.data;
+    const colors = colorAttribute.data;
+    const values = this._values;
+
+    let count = 0;
+    for (let row = 0; row < height; row++) {
+      for (let col = 0; col < width; col++) {
+        const pointOffset = row * rowStep + col * pointStep;
+        const x = xReader(view, pointOffset);
+        const y = yReader(view, pointOffset);
+        const z = zReader(view, pointOffset);
+        if (!isFinite(x) || !isFinite(y) || !isFinite(z)) {
+          continue;
+        }
+        positions[count * 3 + 0] = x;
+        positions[count * 3 + 1] = y;
+        positions[count * 3 + 2] = z;
+
+        if (colorReader) {
+          values[count] = colorReader(view, pointOffset);
+        }
+        count++;
+      }
+    }
+
+    // Fill colors
+    if (colorMode === "colormap" && colorReader) {
+      fillColorMapColors(renderable, config, colors, values, count);
+    } else if ((colorMode === "rgb" || colorMode === "rgba") && colorReader) {
+      // Packed as 0xAARRGGBB
+      const hasAlpha = colorMode === "rgba";
+      for (let i = 0; i < count; i++) {
+        const packed = values[i]!;
+        colors[i * 4 + 0] = SRGB_TO_LINEAR[(packed >>> 16) & 0xff]!;
+        colors[i * 4 + 1] = SRGB_TO_LINEAR[(packed >>> 8) & 0xff]!;
+        colors[i * 4 + 2] = SRGB_TO_LINEAR[packed & 0xff]!;
+        colors[i * 4 + 3] = hasAlpha ? ((packed >>> 24) & 0xff) / 255 : 1;
+      }
+    } else {
+      fillFlatColors(config, colors, count);
+    }
+
+    const transparent = colorMode === "rgba";
+    if (material.transparent !== transparent) {
+      material.transparent = transparent;
+      material.depthWrite = !transparent;
+      material.needsUpdate = true;
+    }
+
+    finishPointsUpdate(renderable, count);
+  }
+
+  private _clearPoints(renderable: PointCloudRenderable): void {
+    resizePoints(renderable, 0);
+  }
+}
+
+// Returns the named field if it fits within a single point
+function findField(pointCloud: PointCloud2, name: string): PointField | undefined {
+  const field = pointCloud.fields.find((curField) => curField.name === name);
+  if (!field || field.offset + fieldTypeSize(field.datatype) > pointCloud.point_step) {
+    return undefined;
+  }
+  return field;
+}
+
+function resolveColorMode(config: PointCloudConfig, pointCloud: PointCloud2): PointCloudColorMode {
+  if (config.colorMode) {
+    return config.colorMode;
+  }
+  if (pointCloud.fields.some((field) => field.name === "rgba")) {
+    return "rgba";
+  } else if (pointCloud.fields.some((field) => field.name === "rgb")) {
+    return "rgb";
+  }
+  return "colormap";
+}
+
+function resolveColorField(config: PointCloudConfig, pointCloud: PointCloud2): string {
+  const fieldNames = pointCloud.fields.map((field) => field.name);
+  if (config.colorField != undefined && fieldNames.includes(config.colorField)) {
+    return config.colorField;
+  }
+  return fieldNames.includes("intensity") ? "intensity" : "z";
+}
@@ -0,0 +1,148 @@
+import * as THREE from "three";
+
+import { Renderer } from "../Renderer";
+import { PosesInFrame, posesInFrameToPoseArray, POSES_IN_FRAME_DATATYPES } from "../foxglove";
+import {
+  Header,
+  Pose,
+  PoseArray,
+  PoseStamped,
+  PoseWithCovarianceStamped,
+  POSE_ARRAY_DATATYPES,
+  POSE_STAMPED_DATATYPES,
+  POSE_WITH_COVARIANCE_STAMPED_DATATYPES,
+  rosTimeToNanoSec,
+} from "../ros";
+import { SettingsTreeAction, SettingsTreeContributor, SettingsTreeEntry } from "../settings";
+import { reportTransformFailure, updatePose } from "../updatePose";
+import {
+  createPoseRenderable,
+  disposePoseRenderable,
+  handlePoseSettingsAction,
+  poseSettingsFields,
+  PoseRenderable,
+  updatePoseRenderable,
+} from "./poseCommon";
+
+type PosesRenderable = PoseRenderable & {
+  userData: {
+    poses: Pose[];
+    covariance: ArrayLike<number> | undefined;
+  };
+};
+
+export class Poses extends THREE.Object3D implements SettingsTreeContributor {
+  renderer: Renderer;
+  renderables = new Map<string, PosesRenderable>();
+
+  constructor(renderer: Renderer) {
+    super();
+    this.renderer = renderer;
+  }
+
+  dispose(): void {
+    for (const renderable of this.renderables.values()) {
+      disposePoseRenderable(this.renderer, renderable);
+    }
+    this.children.length = 0;
+    this.renderables.clear();
+  }
+
+  removeTopic(topic: string): void {
+    const renderable = this.renderables.get(topic);
+    if (renderable) {
+      this.remove(renderable);
+      disposePoseRenderable(this.renderer, renderable);
+      this.renderables.delete(topic);
+    }
+  }
+
+  addPoseStampedMessage(topic: string, poseStamped: PoseStamped): void {
+    this._addPoses(topic, poseStamped.header, [poseStamped.pose], undefined);
+  }
+
+  addPoseArrayMessage(topic: string, poseArray: PoseArray): void {
+    this._addPoses(topic, poseArray.header, poseArray.poses, undefined);
+  }
+
+  addPosesInFrameMessage(topic: string, posesInFrame: PosesInFrame): void {
+    this.addPoseArrayMessage(topic, posesInFrameToPoseArray(posesInFrame));
+  }
+
+  addPoseWithCovarianceStampedMessage(topic: string, message: PoseWithCovarianceStamped): void {
+    this._addPoses(topic, message.header, [message.pose.pose], message.pose.covariance);
+  }
+
+  startFrame(currentTime: bigint): void {
+    const renderFrameId = this.renderer.renderFrameId;
+    const fixedFrameId = this.renderer.fixedFrameId;
+    if (!renderFrameId || !fixedFrameId) {
+      return;
+    }
+
+    for (const [topic, renderable] of this.renderables) {
+      const failure = updatePose(
+        renderable,
+        this.renderer.transformTree,
+        renderFrameId,
+        fixedFrameId,
+        renderable.userData.frameId,
+        currentTime,
+        renderable.userData.srcTime,
+      );
+      reportTransformFailure(this.renderer.topicErrors, topic, failure);
+    }
+  }
+
+  settingsNodes(): SettingsTreeEntry[] {
+    const entries: SettingsTreeEntry[] = [];
+    for (const topic of this.renderer.topics) {
+      const hasCovariance = POSE_WITH_COVARIANCE_STAMPED_DATATYPES.has(topic.datatype);
+      if (
+        !hasCovariance &&
+        !POSE_STAMPED_DATATYPES.has(topic.datatype) &&
+        !POSE_ARRAY_DATATYPES.has(topic.datatype) &&
+        !POSES_IN_FRAME_DATATYPES.has(topic.datatype)
+      ) {
+        continue;
+      }
+      entries.push({
+        path: ["topics", topic.name],
+        node: { fields: poseSettingsFields(this.renderer, topic.name, hasCovariance) },
+      });
+    }
+    return entries;
+  }
+
+  handleSettingsAction(action: SettingsTreeAction): void {
+    const topic = handlePoseSettingsAction(this.renderer, action);
+    const renderable = topic != undefined ? this.renderables.get(topic) : undefined;
+    if (renderable) {
+      const { poses, covariance } = renderable.userData;
+      updatePoseRenderable(this.renderer, renderable, poses, covariance);
+    }
+  }
+
+  private _addPoses(
+    topic: string,
+    header: Header,
+    poses: Pose[],
+    covariance: ArrayLike<number> | undefined,
+  ): void {
+    let renderable = this.renderables.get(topic);
+    if (!renderable) {
+      renderable = createPoseRenderable(
+        topic,
+        header.frame_id,
+        rosTimeToNanoSec(header.stamp),
+      ) as PosesRenderable;
+      this.add(renderable);
+      this.renderables.set(topic, renderable);
+    }
+    renderable.userData.frameId = header.frame_id;
+    renderable.userData.srcTime = rosTimeToNanoSec(header.stamp);
+    renderable.userData.poses = poses;
+    renderable.userData.covariance = covariance;
+    updatePoseRenderable(this.renderer, renderable, poses, covariance);
+  }
+}
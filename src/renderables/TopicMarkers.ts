@@ -1,7 +1,9 @@
 import * as THREE from "three";
+
 import { Renderer } from "../Renderer";
-import { Marker, MarkerAction, MarkerType, Pose } from "../ros";
-import { updatePose } from "../updatePose";
+import { hexStringToRgb } from "../color";
+import { Marker, MarkerAction, MarkerType, Pose, rosTimeToNanoSec } from "../ros";
+import { TRANSFORM_ERROR, updatePose } from "../updatePose";
 import { RenderableArrow } from "./markers/RenderableArrow";
 import { RenderableCube } from "./markers/RenderableCube";
 import { RenderableCubeList } from "./markers/RenderableCubeList";
@@ -13,6 +15,8 @@ import { RenderableMeshResource } from "./markers/RenderableMeshResource";
 import { RenderablePoints } from "./markers/RenderablePoints";
 import { RenderableSphere } from "./markers/RenderableSphere";
 import { RenderableSphereList } from "./markers/RenderableSphereList";
+import { RenderableTextViewFacing } from "./markers/RenderableTextViewFacing";
+import { RenderableTriangleList } from "./markers/RenderableTriangleList";
 
 const INVALID_CUBE_LIST = "INVALID_CUBE_LIST";
 const INVALID_LINE_LIST = "INVALID_LINE_LIST";
@@ -21,11 +25,24 @@ const INVALID_MARKER_ACTION = "INVALID_MARKER_ACTION";
 const INVALID_MARKER_TYPE = "INVALID_MARKER_TYPE";
 const INVALID_POINTS_LIST = "INVALID_POINTS_LIST";
 const INVALID_SPHERE_LIST = "INVALID_SPHERE_LIST";
+const INVALID_TRIANGLE_LIST = "INVALID_TRIANGLE_LIST";
+
+// Transform errors are reported for each marker, with an error id of
+// `TRANSFORM_ERROR:<ns>:<id>`
+const MARKER_TRANSFORM_ERROR_PREFIX = `${TRANSFORM_ERROR}:`;
+
+/** The `TopicErrors` error id of a transform lookup failure for a single marker */
+export function markerTransformErrorId(ns: string, id: number): string {
+  return `${MARKER_TRANSFORM_ERROR_PREFIX}${ns}:${id}`;
+}
 
 export class TopicMarkers extends THREE.Object3D {
   readonly topic: string;
   readonly renderer: Renderer;
   namespaces = new Map<string, Map<number, RenderableMarker>>();
+  // The most recent message for each marker that has expired, kept so the
+  // marker can be restored if playback seeks back into its lifetime
+  expiredMarkers = new Map<string, Map<number, Marker>>();
 
   constructor(topic: string, renderer: Renderer) {
     super();
@@ -33,7 +50,64 @@ export class TopicMarkers extends THREE.Object3D {
     this.renderer = renderer;
   }
 
-  dispose(): void {}
+  dispose(): void {
+    this.expiredMarkers.clear();
+    for (const ns of this.namespaces.values()) {
+      for (const renderable of ns.values()) {
+        this.remove(renderable);
+        renderable.dispose();
+      }
+    }
+    if (this.namespaces.size > 0) {
+      this.namespaces.clear();
+      this.renderer.emit("markerNamespacesUpdated", this.topic, this.renderer);
+    }
+  }
+
+  /**
+   * Returns false if the given namespace, or the marker with the given id in
+   * that namespace, has been hidden by the user.
+   */
+  markerVisible(ns: string, id?: number): boolean {
+    const nsConfig = this.renderer.config.topics[this.topic]?.namespaces?.[ns];
+    if (!nsConfig) {
+      return true;
+    }
+    if (nsConfig.visible === false) {
+      return false;
+    }
+    return id == undefined || nsConfig.hiddenIds?.includes(id) !== true;
+  }
+
+  /**
+   * Hide renderables that have been hidden by the user. Renderables that are
+   * visible in the config have their visibility restored by the next
+   * `startFrame()` once their pose is updated.
+   */
+  updateVisibility(): void {
+    for (const [nsName, ns] of this.namespaces) {
+      for (const [id, renderable] of ns) {
+        if (!this.markerVisible(nsName, id)) {
+          renderable.visible = false;
+        }
+      }
+    }
+  }
+
+  /**
+   * Re-apply the topic color override to all existing renderables, after the
+   * override has been changed or cleared.
+   */
+  updateColorOverride(): void {
+    for (const ns of this.namespaces.values()) {
+      for (const renderable of ns.values()) {
+        const originalMarker = renderable.userData.originalMarker as Marker | undefined;
+        if (originalMarker) {
+          renderable.update(this._applyColorOverride(originalMarker));
+        }
+      }
+    }
+  }
 
   addMarkerMessage(marker: Marker): void {
     switch (marker.action) {
@@ -43,6 +117,7 @@ export class TopicMarkers extends THREE.Object3D {
         break;
       case MarkerAction.DELETE: {
         // Delete this marker
+        this.expiredMarkers.get(marker.ns)?.delete(marker.id);
         const ns = this.namespaces.get(marker.ns);
         if (ns) {
           const renderable = ns.get(marker.id);
@@ -50,19 +125,14 @@ export class TopicMarkers extends THREE.Object3D {
             this.remove(renderable);
             renderable.dispose();
             ns.delete(marker.id);
+            this.renderer.emit("markerNamespacesUpdated", this.topic, this.renderer);
           }
         }
         break;
       }
       case MarkerAction.DELETEALL: {
         // Delete all markers on this topic
-        for (const ns of this.namespaces.values()) {
-          for (const renderable of ns.values()) {
-            this.remove(renderable);
-            renderable.dispose();
-          }
-        }
-        this.namespaces.clear();
+        this.dispose();
         break;
       }
       default:
@@ -75,13 +145,61 @@ export class TopicMarkers extends THREE.Object3D {
     }
   }
 
+  /**
+   * Delete the markers in a namespace whose id is at least `fromId`. Passing
+   * 0 deletes the whole namespace.
+   */
+  deleteNamespace(nsName: string, fromId = 0): void {
+    const expiredNs = this.expiredMarkers.get(nsName);
+    for (const id of expiredNs?.keys() ?? []) {
+      if (id >= fromId) {
+        expiredNs!.delete(id);
+      }
+    }
+
+    const ns = this.namespaces.get(nsName);
+    if (!ns) {
+      return;
+    }
+    let changed = false;
+    for (const [id, renderable] of ns) {
+      if (id >= fromId) {
+        this.remove(renderable);
+        renderable.dispose();
+        ns.delete(id);
+        changed = true;
+      }
+    }
+    if (ns.size === 0) {
+      this.namespaces.delete(nsName);
+    }
+    if (changed) {
+      this.renderer.emit("markerNamespacesUpdated", this.topic, this.renderer);
+    }
+  }
+
   startFrame(currentTime: bigint, renderFrameId: string, fixedFrameId: string): void {
-    for (const ns of this.namespaces.values()) {
-      for (const renderable of ns.values()) {
+    const topicErrors = this.renderer.topicErrors;
+    let failedErrorIds: Set<string> | undefined;
+    let expired = false;
+    for (const [nsName, ns] of this.namespaces) {
+      for (const [id, renderable] of ns) {
         const marker = renderable.marker;
+        const expiresAt = markerExpiration(marker);
+        if (expiresAt != undefined && expiresAt < currentTime) {
+          this._expireMarker(ns, renderable);
+          expired = true;
+          continue;
+        }
+
+        if (!this.markerVisible(nsName, id)) {
+          renderable.visible = false;
+          continue;
+        }
+
         const frameId = marker.header.frame_id;
-        const srcTime = marker.frame_locked ? currentTime : renderable.userData.srcTime!;
-        updatePose(
+        const srcTime = marker.frame_locked ? currentTime : renderable.srcTime;
+        const failure = updatePose(
           renderable,
           this.renderer.transformTree,
           renderFrameId,
@@ -90,11 +208,97 @@ export class TopicMarkers extends THREE.Object3D {
           currentTime,
           srcTime,
         );
+        if (failure) {
+          const errorId = markerTransformErrorId(nsName, id);
+          topicErrors.add(this.topic, errorId, `Marker ${nsName}:${id}: ${failure.message}`);
+          (failedErrorIds ??= new Set()).add(errorId);
+        }
       }
     }
+    this._clearTransformErrors(failedErrorIds);
+
+    if (expired) {
+      this.renderer.emit("markerNamespacesUpdated", this.topic, this.renderer);
+    }
   }
 
-  private _addOrUpdateMarker(marker: Marker): void {
+  /**
+   * Called when playback jumps backward to `currentTime`. Markers stamped
+   * after `currentTime` are removed, and expired markers whose lifetime
+   * contains `currentTime` are restored.
+   */
+  seekBackward(currentTime: bigint): void {
+    let changed = false;
+    for (const ns of this.namespaces.values()) {
+      for (const renderable of ns.values()) {
+        if (renderable.srcTime > currentTime) {
+          this.remove(renderable);
+          renderable.dispose();
+          ns.delete(renderable.marker.id);
+          changed = true;
+        }
+      }
+    }
+
+    for (const [nsName, expiredNs] of this.expiredMarkers) {
+      for (const [id, marker] of expiredNs) {
+        const stamp = rosTimeToNanoSec(marker.header.stamp);
+        if (stamp > currentTime) {
+          expiredNs.delete(id);
+        } else if (markerExpiration(marker)! >= currentTime) {
+          expiredNs.delete(id);
+          if (this.namespaces.get(nsName)?.has(id) !== true) {
+            this._addOrUpdateMarker(marker);
+            changed = true;
+          }
+        }
+      }
+    }
+
+    if (changed) {
+      this.renderer.emit("markerNamespacesUpdated", this.topic, this.renderer);
+    }
+  }
+
+  // Remove transform errors of markers that were placed successfully, hidden
+  // or deleted since the errors were added
+  private _clearTransformErrors(failedErrorIds: Set<string> | undefined): void {
+    const errors = this.renderer.topicErrors.errors.get(this.topic);
+    if (!errors || errors.size === 0) {
+      return;
+    }
+    for (const errorId of Array.from(errors.keys())) {
+      if (
+        errorId.startsWith(MARKER_TRANSFORM_ERROR_PREFIX) &&
+        failedErrorIds?.has(errorId) !== true
+      ) {
+        this.renderer.topicErrors.remove(this.topic, errorId);
+      }
+    }
+  }
+
+  private _expireMarker(ns: Map<number, RenderableMarker>, renderable: RenderableMarker): void {
+    const marker = renderable.marker;
+    let expiredNs = this.expiredMarkers.get(marker.ns);
+    if (!expiredNs) {
+      expiredNs = new Map();
+      this.expiredMarkers.set(marker.ns, expiredNs);
+    }
+    expiredNs.set(marker.id, (renderable.userData.originalMarker as Marker | undefined) ?? marker);
+
+    this.remove(renderable);
+    renderable.dispose();
+    ns.delete(marker.id);
+  }
+
+  private _addOrUpdateMarker(originalMarker: Marker): void {
+    const marker = this._applyColorOverride(originalMarker);
+    // Malformed updates are dropped, leaving any existing renderable in its
+    // last valid state
+    if (!this._validateMarker(marker)) {
+      return;
+    }
+
     let ns = this.namespaces.get(marker.ns);
     if (!ns) {
       ns = new Map<number, RenderableMarker>();
@@ -102,98 +306,152 @@ export class TopicMarkers extends THREE.Object3D {
     }
 
     let renderable = ns.get(marker.id);
+    if (renderable && renderable.marker.type !== marker.type) {
+      // The marker type changed for an existing ns/id. Each renderable class
+      // only handles a single marker type, so replace the renderable
+      this.remove(renderable);
+      renderable.dispose();
+      ns.delete(marker.id);
+      renderable = undefined;
+    }
+
     if (!renderable) {
       renderable = this._createMarkerRenderable(marker);
       if (!renderable) return;
+      renderable.userData.originalMarker = originalMarker;
       this.add(renderable);
       ns.set(marker.id, renderable);
+      renderable.visible = this.markerVisible(marker.ns, marker.id);
+      this.renderer.emit("markerNamespacesUpdated", this.topic, this.renderer);
     } else {
+      renderable.userData.originalMarker = originalMarker;
       renderable.update(marker);
     }
   }
 
-  private _createMarkerRenderable(marker: Marker): RenderableMarker | undefined {
+  // Replace the marker colors with the topic color override, if one is set.
+  // Alpha values from the original marker are preserved
+  private _applyColorOverride(marker: Marker): Marker {
+    const hex = this.renderer.config.topics[this.topic]?.color;
+    const rgb = hex != undefined ? hexStringToRgb(hex) : undefined;
+    if (!rgb) {
+      return marker;
+    }
+    return {
+      ...marker,
+      color: { ...rgb, a: marker.color.a },
+      colors: marker.colors.map((color) => ({ ...rgb, a: color.a })),
+    };
+  }
+
+  // Returns false and adds a topic error if the marker is malformed for its
+  // type. A valid marker clears the error for its type and the invalid type
+  // error, so errors don't outlive the markers that caused them
+  private _validateMarker(marker: Marker): boolean {
+    const topicErrors = this.renderer.topicErrors;
+    const error = (errorId: string, message: string): false => {
+      topicErrors.add(this.topic, errorId, message);
+      return false;
+    };
+    const valid = (errorId?: string): true => {
+      if (topicErrors.hasErrors(this.topic)) {
+        if (errorId != undefined) {
+          topicErrors.remove(this.topic, errorId);
+        }
+        topicErrors.remove(this.topic, INVALID_MARKER_TYPE);
+      }
+      return true;
+    };
+
     switch (marker.type) {
       case MarkerType.ARROW:
-        return new RenderableArrow(this.topic, marker, this.renderer);
       case MarkerType.CUBE:
-        return new RenderableCube(this.topic, marker, this.renderer);
       case MarkerType.SPHERE:
-        return new RenderableSphere(this.topic, marker, this.renderer);
       case MarkerType.CYLINDER:
-        return new RenderableCylinder(this.topic, marker, this.renderer);
+      case MarkerType.TEXT_VIEW_FACING:
+      case MarkerType.MESH_RESOURCE:
+        return valid();
       case MarkerType.LINE_STRIP:
         if (marker.points.length < 2) {
-          this.renderer.topicErrors.add(
-            this.topic,
-            INVALID_LINE_STRIP,
-            "LINE_STRIP marker has fewer than 2 points",
-          );
-          return;
+          return error(INVALID_LINE_STRIP, "LINE_STRIP marker has fewer than 2 points");
         }
-        return new RenderableLineStrip(this.topic, marker, this.renderer);
+        return valid(INVALID_LINE_STRIP);
       case MarkerType.LINE_LIST:
         if (marker.points.length < 2) {
-          this.renderer.topicErrors.add(
-            this.topic,
-            INVALID_LINE_LIST,
-            "LINE_LIST marker has fewer than 2 points",
-          );
-          return;
+          return error(INVALID_LINE_LIST, "LINE_LIST marker has fewer than 2 points");
         } else if (marker.points.length % 2 !== 0) {
-          this.renderer.topicErrors.add(
-            this.topic,
-            INVALID_LINE_LIST,
-            "LINE_LIST marker has an odd number of points",
-          );
-          return;
+          return error(INVALID_LINE_LIST, "LINE_LIST marker has an odd number of points");
         }
-        return new RenderableLineList(this.topic, marker, this.renderer);
+        return valid(INVALID_LINE_LIST);
       case MarkerType.CUBE_LIST:
         if (marker.points.length === 0) {
-          this.renderer.topicErrors.add(
-            this.topic,
-            INVALID_CUBE_LIST,
-            "CUBE_LIST marker has no points",
-          );
-          return;
+          return error(INVALID_CUBE_LIST, "CUBE_LIST marker has no points");
         }
-        return new RenderableCubeList(this.topic, marker, this.renderer);
+        return valid(INVALID_CUBE_LIST);
       case MarkerType.SPHERE_LIST:
         if (marker.points.length === 0) {
-          this.renderer.topicErrors.add(
-            this.topic,
-            INVALID_SPHERE_LIST,
-            "SPHERE_LIST marker has no points",
-          );
-          return;
+          return error(INVALID_SPHERE_LIST, "SPHERE_LIST marker has no points");
         }
-        return new RenderableSphereList(this.topic, marker, this.renderer);
+        return valid(INVALID_SPHERE_LIST);
       case MarkerType.POINTS:
         if (marker.points.length === 0) {
-          this.renderer.topicErrors.add(
-            this.topic,
-            INVALID_POINTS_LIST,
-            "POINTS marker has no points",
+          return error(INVALID_POINTS_LIST, "POINTS marker has no points");
+        }
+        return valid(INVALID_POINTS_LIST);
+      case MarkerType.TRIANGLE_LIST:
+        if (marker.points.length === 0) {
+          return error(INVALID_TRIANGLE_LIST, "TRIANGLE_LIST marker has no points");
+        } else if (marker.points.length % 3 !== 0) {
+          return error(
+            INVALID_TRIANGLE_LIST,
+            "TRIANGLE_LIST marker point count is not a multiple of 3",
           );
-          return;
         }
+        return valid(INVALID_TRIANGLE_LIST);
+      default:
+        return error(INVALID_MARKER_TYPE, `Invalid marker type ${marker.type}`);
+    }
+  }
+
+  // Assumes the marker has already passed `_validateMarker()`
+  private _createMarkerRenderable(marker: Marker): RenderableMarker | undefined {
+    switch (marker.type) {
+      case MarkerType.ARROW:
+        return new RenderableArrow(this.topic, marker, this.renderer);
+      case MarkerType.CUBE:
+        return new RenderableCube(this.topic, marker, this.renderer);
+      case MarkerType.SPHERE:
+        return new RenderableSphere(this.topic, marker, this.renderer);
+      case MarkerType.CYLINDER:
+        return new RenderableCylinder(this.topic, marker, this.renderer);
+      case MarkerType.LINE_STRIP:
+        return new RenderableLineStrip(this.topic, marker, this.renderer);
+      case MarkerType.LINE_LIST:
+        return new RenderableLineList(this.topic, marker, this.renderer);
+      case MarkerType.CUBE_LIST:
+        return new RenderableCubeList(this.topic, marker, this.renderer);
+      case MarkerType.SPHERE_LIST:
+        return new RenderableSphereList(this.topic, marker, this.renderer);
+      case MarkerType.POINTS:
         return new RenderablePoints(this.topic, marker, this.renderer);
       case MarkerType.TEXT_VIEW_FACING:
-        // return new RenderableTextViewFacing(this.topic, marker, this.renderer);
-        return undefined;
+        return new RenderableTextViewFacing(this.topic, marker, this.renderer);
       case MarkerType.MESH_RESOURCE:
         return new RenderableMeshResource(this.topic, marker, this.renderer);
       case MarkerType.TRIANGLE_LIST:
-        // return new RenderableTriangleList(this.topic, marker, this.renderer);
-        return undefined;
+        return new RenderableTriangleList(this.topic, marker, this.renderer);
       default:
-        this.renderer.topicErrors.add(
-          this.topic,
-          INVALID_MARKER_TYPE,
-          `Invalid marker type ${marker.type}`,
-        );
         return undefined;
     }
   }
 }
+
+// Returns the time at which a marker expires, or undefined if the marker has
+// a zero lifetime and never expires
+function markerExpiration(marker: Marker): bigint | undefined {
+  const lifetime = rosTimeToNanoSec(marker.lifetime);
+  if (lifetime === 0n) {
+    return undefined;
+  }
+  return rosTimeToNanoSec(marker.header.stamp) + lifetime;
+}
@@ -0,0 +1,417 @@
+import { ParameterValue } from "@foxglove/studio";
+import * as THREE from "three";
+
+import { Renderer } from "../Renderer";
+import { ColorRGBA, JointState, Marker, MarkerType, TF, Vector3 } from "../ros";
+import {
+  SettingsTreeAction,
+  SettingsTreeContributor,
+  SettingsTreeEntry,
+  SettingsTreeNode,
+} from "../settings";
+import { makePose, Pose, TransformLookupFailure } from "../transforms";
+import { TRANSFORM_ERROR, updatePose } from "../updatePose";
+import { jointPose, parseUrdf, UrdfJoint, UrdfRobot, UrdfVisual } from "../urdf";
+import { RenderableCube } from "./markers/RenderableCube";
+import { RenderableCylinder } from "./markers/RenderableCylinder";
+import { RenderableMarker } from "./markers/RenderableMarker";
+import { RenderableMeshResource } from "./markers/RenderableMeshResource";
+import { RenderableSphere } from "./markers/RenderableSphere";
+import { syntheticMarker } from "./poseCommon";
+
+const INVALID_URDF = "INVALID_URDF";
+
+const DEFAULT_COLOR: ColorRGBA = { r: 0.8, g: 0.8, b: 0.8, a: 1 };
+
+type LinkRenderable = THREE.Object3D & {
+  userData: {
+    linkName: string;
+    pose: Pose;
+    visuals: RenderableMarker[];
+  };
+};
+
+type UrdfRenderable = THREE.Object3D & {
+  userData: {
+    // The topic or parameter name the robot description was read from
+    source: string;
+    xml: string;
+    robot: UrdfRobot | undefined;
+    links: LinkRenderable[];
+  };
+};
+
+/**
+ * Draws robot models described in URDF. The description is read from
+ * `std_msgs/String` topics or from `robot_description` parameters, and each
+ * link is placed at the TF frame of the same name.
+ */
+export class Urdfs extends THREE.Object3D implements SettingsTreeContributor {
+  renderer: Renderer;
+  // Robots read from topics, keyed by topic name
+  renderables = new Map<string, UrdfRenderable>();
+  // Robots read from parameters, keyed by parameter name
+  parameterRenderables = new Map<string, UrdfRenderable>();
+  // Frames that receive transforms from TF messages. Joint states never
+  // override these, so a robot_state_publisher takes precedence
+  private _tfFrames = new Set<string>();
+
+  constructor(renderer: Renderer) {
+    super();
+    this.renderer = renderer;
+  }
+
+  dispose(): void {
+    for (const renderable of this.renderables.values()) {
+      this._disposeRenderable(renderable);
+    }
+    for (const renderable of this.parameterRenderables.values()) {
+      this._disposeRenderable(renderable);
+    }
+    this.children.length = 0;
+    this.renderables.clear();
+    this.parameterRenderables.clear();
+  }
+
+  removeTopic(topic: string): void {
+    const renderable = this.renderables.get(topic);
+    if (renderable) {
+      this.remove(renderable);
+      this._disposeRenderable(renderable);
+      this.renderables.delete(topic);
+    }
+  }
+
+  addRobotDescriptionMessage(topic: string, xml: string): void {
+    this._setRobotDescription(this.renderables, topic, xml);
+  }
+
+  /**
+   * Update robots read from parameters. Every string parameter whose last
+   * name component is `robot_description` is drawn, such as
+   * `/robot_description` in ROS 1 or `/robot_state_publisher.robot_description`
+   * in ROS 2.
+   */
+  setParameters(parameters: ReadonlyMap<string, ParameterValue>): void {
+    for (const name of this.parameterRenderables.keys()) {
+      if (typeof parameters.get(name) !== "string") {
+        const renderable = this.parameterRenderables.get(name)!;
+        this.remove(renderable);
+        this._disposeRenderable(renderable);
+        this.parameterRenderables.delete(name);
+        this.renderer.topicErrors.clearTopic(name);
+      }
+    }
+
+    for (const [name, value] of parameters) {
+      if (typeof value === "string" && isRobotDescriptionParameter(name)) {
+        this._setRobotDescription(this.parameterRenderables, name, value);
+      }
+    }
+  }
+
+  /** Note that `frameId` is driven by TF messages rather than joint states */
+  addTransformFrame(frameId: string): void {
+    this._tfFrames.add(frameId);
+  }
+
+  /**
+   * Compute forward kinematics from joint positions and add the resulting
+   * link transforms to the transform tree, which animates robots that are
+   * recorded without TF. Movable joints without a position are skipped, as
+   * are fixed joints whose child frame already has TF transforms.
+   */
+  addJointStateMessage(topic: string, jointState: JointState): void {
+    const positions = new Map<string, number>();
+    jointState.name.forEach((name, i) => {
+      const position = jointState.position[i];
+      if (position != undefined) {
+        positions.set(name, position);
+      }
+    });
+
+    for (const robot of this._activeRobots()) {
+      for (const joint of robot.joints.values()) {
+        if (this._tfFrames.has(joint.child)) {
+          continue;
+        }
+        const position = joint.type === "fixed" ? 0 : jointPosition(robot, joint, positions);
+        const pose = position != undefined ? jointPose(joint, position) : undefined;
+        if (!pose) {
+          continue;
+        }
+        const tf: TF = {
+          header: { frame_id: joint.parent, stamp: jointState.header.stamp },
+          child_frame_id: joint.child,
+          transform: { translation: pose.position, rotation: pose.orientation },
+        };
+        this.renderer.frameAxes.addTransformMessage(topic, tf);
+      }
+    }
+  }
+
+  startFrame(currentTime: bigint): void {
+    const renderFrameId = this.renderer.renderFrameId;
+    const fixedFrameId = this.renderer.fixedFrameId;
+    if (!renderFrameId || !fixedFrameId) {
+      return;
+    }
+
+    // A robot description topic usually republishes the parameter, so robots
+    // from parameters are only drawn when no topic provides one
+    const showParameters = this.renderables.size === 0;
+    for (const renderable of this.parameterRenderables.values()) {
+      renderable.visible = showParameters;
+    }
+
+    for (const renderable of [
+      ...this.renderables.values(),
+      ...this.parameterRenderables.values(),
+    ]) {
+      if (!renderable.visible) {
+        continue;
+      }
+      // Links are drawn at the latest available transform of their frame
+      let firstFailure: TransformLookupFailure | undefined;
+      let failureCount = 0;
+      for (const link of renderable.userData.links) {
+        const failure = updatePose(
+          link,
+          this.renderer.transformTree,
+          renderFrameId,
+          fixedFrameId,
+          link.userData.linkName,
+          currentTime,
+          currentTime,
+        );
+        if (failure) {
+          firstFailure ??= failure;
+          failureCount++;
+        }
+      }
+      this._reportLinkFailures(renderable.userData.source, firstFailure, failureCount);
+    }
+  }
+
+  settingsNodes(): SettingsTreeEntry[] {
+    // Topics already have nodes; parameters get their own section so errors
+    // in a parameter robot description are visible
+    if (this.parameterRenderables.size === 0) {
+      return [];
+    }
+    const children: Record<string, SettingsTreeNode> = {};
+    for (const name of this.parameterRenderables.keys()) {
+      const errors = this.renderer.topicErrors.errors.get(name);
+      children[name] = {
+        label: name,
+        error: errors && errors.size > 0 ? Array.from(errors.values()).join("\n") : undefined,
+      };
+    }
+    return [{ path: ["parameters"], node: { label: "Parameters", children } }];
+  }
+
+  handleSettingsAction(_action: SettingsTreeAction): void {
+    // Parameter nodes have no editable fields
+  }
+
+  // Report one error per robot rather than per link, since a missing
+  // transform usually affects every link below it
+  private _reportLinkFailures(
+    source: string,
+    firstFailure: TransformLookupFailure | undefined,
+    failureCount: number,
+  ): void {
+    const topicErrors = this.renderer.topicErrors;
+    if (!firstFailure) {
+      if (topicErrors.hasErrors(source)) {
+        topicErrors.remove(source, TRANSFORM_ERROR);
+      }
+      return;
+    }
+    const others = failureCount - 1;
+    topicErrors.add(
+      source,
+      TRANSFORM_ERROR,
+      others > 0
+        ? `${firstFailure.message} (and ${others} more link${others === 1 ? "" : "s"})`
+        : firstFailure.message,
+    );
+  }
+
+  // Robots from topics, or from parameters if there are none. This matches the
+  // robots drawn in startFrame()
+  private _activeRobots(): UrdfRobot[] {
+    const renderables = this.renderables.size > 0 ? this.renderables : this.parameterRenderables;
+    const robots: UrdfRobot[] = [];
+    for (const renderable of renderables.values()) {
+      if (renderable.userData.robot) {
+        robots.push(renderable.userData.robot);
+      }
+    }
+    return robots;
+  }
+
+  private _setRobotDescription(
+    renderables: Map<string, UrdfRenderable>,
+    source: string,
+    xml: string,
+  ): void {
+    let renderable = renderables.get(source);
+    if (renderable?.userData.xml === xml) {
+      return;
+    }
+    if (!renderable) {
+      renderable = new THREE.Object3D() as UrdfRenderable;
+      renderable.name = source;
+      renderable.userData.source = source;
+      renderable.userData.robot = undefined;
+      renderable.userData.links = [];
+      this.add(renderable);
+      renderables.set(source, renderable);
+    }
+    renderable.userData.xml = xml;
+
+    this._disposeLinks(renderable);
+    try {
+      renderable.userData.robot = parseUrdf(xml);
+    } catch (err) {
+      renderable.userData.robot = undefined;
+      this.renderer.topicErrors.add(source, INVALID_URDF, (err as Error).message);
+      return;
+    }
+    this.renderer.topicErrors.remove(source, INVALID_URDF);
+
+    for (const link of renderable.userData.robot.links.values()) {
+      const linkRenderable = new THREE.Object3D() as LinkRenderable;
+      linkRenderable.name = link.name;
+      linkRenderable.userData.linkName = link.name;
+      linkRenderable.userData.pose = makePose();
+      linkRenderable.userData.visuals = link.visuals.map((visual, i) =>
+        this._createVisual(source, link.name, i, visual),
+      );
+      for (const visual of linkRenderable.userData.visuals) {
+        linkRenderable.add(visual);
+      }
+      renderable.add(linkRenderable);
+      renderable.userData.links.push(linkRenderable);
+    }
+  }
+
+  private _createVisual(
+    source: string,
+    linkName: string,
+    index: number,
+    visual: UrdfVisual,
+  ): RenderableMarker {
+    const color = visual.color ?? DEFAULT_COLOR;
+    const geometry = visual.geometry;
+    let renderable: RenderableMarker;
+    switch (geometry.type) {
+      case "box":
+        renderable = new RenderableCube(
+          source,
+          visualMarker(MarkerType.CUBE, linkName, index, geometry.size, color),
+          this.renderer,
+        );
+        break;
+      case "cylinder": {
+        const diameter = geometry.radius * 2;
+        const scale = { x: diameter, y: diameter, z: geometry.length };
+        renderable = new RenderableCylinder(
+          source,
+          visualMarker(MarkerType.CYLINDER, linkName, index, scale, color),
+          this.renderer,
+        );
+        break;
+      }
+      case "sphere": {
+        const diameter = geometry.radius * 2;
+        const scale = { x: diameter, y: diameter, z: diameter };
+        renderable = new RenderableSphere(
+          source,
+          visualMarker(MarkerType.SPHERE, linkName, index, scale, color),
+          this.renderer,
+        );
+        break;
+      }
+      case "mesh": {
+        const marker = visualMarker(
+          MarkerType.MESH_RESOURCE,
+          linkName,
+          index,
+          geometry.scale,
+          color,
+        );
+        marker.mesh_resource = geometry.filename;
+        // Keep the materials of the mesh file unless the URDF sets a color
+        marker.mesh_use_embedded_materials = visual.color == undefined;
+        renderable = new RenderableMeshResource(source, marker, this.renderer);
+        break;
+      }
+    }
+
+    // Visuals are children of their link, so they are placed directly rather
+    // than with updatePose()
+    const { position: p, orientation: q } = visual.origin;
+    renderable.position.set(p.x, p.y, p.z);
+    renderable.quaternion.set(q.x, q.y, q.z, q.w);
+    return renderable;
+  }
+
+  private _disposeLinks(renderable: UrdfRenderable): void {
+    for (const link of renderable.userData.links) {
+      for (const visual of link.userData.visuals) {
+        visual.dispose();
+      }
+      renderable.remove(link);
+    }
+    renderable.userData.links = [];
+  }
+
+  private _disposeRenderable(renderable: UrdfRenderable): void {
+    this._disposeLinks(renderable);
+    renderable.userData.robot = undefined;
+  }
+}
+
+// The position of a movable joint, following mimic joints to the joint they
+// copy. Returns undefined if there is no position for the joint
+function jointPosition(
+  robot: UrdfRobot,
+  joint: UrdfJoint,
+  positions: ReadonlyMap<string, number>,
+): number | undefined {
+  let multiplier = 1;
+  let offset = 0;
+  let current = joint;
+  // Bound the chain length so a mimic cycle cannot loop forever
+  for (let i = 0; i <= robot.joints.size && current.mimic; i++) {
+    const mimicked = robot.joints.get(current.mimic.joint);
+    if (!mimicked) {
+      return undefined;
+    }
+    offset += multiplier * current.mimic.offset;
+    multiplier *= current.mimic.multiplier;
+    current = mimicked;
+  }
+  if (current.mimic) {
+    return undefined;
+  }
+  const position = positions.get(current.name);
+  return position != undefined ? multiplier * position + offset : undefined;
+}
+
+function isRobotDescriptionParameter(name: string): boolean {
+  return name.split(/[/.]/).pop() === "robot_description";
+}
+
+// Visuals of a link are namespaced by link name so each has a unique marker id
+function visualMarker(
+  type: MarkerType,
+  linkName: string,
+  index: number,
+  scale: Vector3,
+  color: ColorRGBA,
+): Marker {
+  return { ...syntheticMarker(type, index, scale, color), ns: linkName };
+}
@@ -1,11 +1,12 @@
 import * as THREE from "three";
 import { clamp } from "three/src/math/MathUtils";
+
+import { DetailLevel, Renderer } from "../../Renderer";
 import { rgbaEqual } from "../../color";
 import { getRotationTo } from "../../math";
-import { DetailLevel, Renderer } from "../../Renderer";
 import { Marker, Vector3 } from "../../ros";
-import { releaseStandardMaterial, standardMaterial } from "./materials";
 import { RenderableMarker } from "./RenderableMarker";
+import { releaseStandardMaterial, standardMaterial } from "./materials";
 
 // const SHAFT_LENGTH = 1;
 // const SHAFT_DIAMETER = 0.1;
@@ -70,13 +71,15 @@ export class RenderableArrow extends RenderableMarker {
 
   override dispose(): void {
     releaseStandardMaterial(this.marker, this._renderer.materialCache);
+    super.dispose();
   }
 
   override update(marker: Marker): void {
+    const prevMarker = this.marker;
     super.update(marker);
 
-    if (!rgbaEqual(marker.color, this.marker.color)) {
-      releaseStandardMaterial(marker, this._renderer.materialCache);
+    if (!rgbaEqual(marker.color, prevMarker.color)) {
+      releaseStandardMaterial(prevMarker, this._renderer.materialCache);
       this.shaftMesh.material = standardMaterial(marker, this._renderer.materialCache);
       this.headMesh.material = this.shaftMesh.material;
     }
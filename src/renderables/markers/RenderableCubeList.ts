@@ -1,13 +1,14 @@
 import * as THREE from "three";
+
 import { DynamicInstancedMesh } from "../../DynamicInstancedMesh";
 import { Renderer } from "../../Renderer";
 import { Marker } from "../../ros";
+import { RenderableMarker } from "./RenderableMarker";
 import {
   markerHasTransparency,
   releaseStandardInstancedMaterial,
   standardInstancedMaterial,
 } from "./materials";
-import { RenderableMarker } from "./RenderableMarker";
 
 export class RenderableCubeList extends RenderableMarker {
   private static _geometry: THREE.BoxGeometry | undefined;
@@ -43,13 +44,15 @@ export class RenderableCubeList extends RenderableMarker {
 
   override dispose(): void {
     releaseStandardInstancedMaterial(this.marker, this._renderer.materialCache);
+    super.dispose();
   }
 
   override update(marker: Marker): void {
+    const prevMarker = this.marker;
     super.update(marker);
 
-    if (markerHasTransparency(marker) !== markerHasTransparency(this.marker)) {
-      releaseStandardInstancedMaterial(marker, this._renderer.materialCache);
+    if (markerHasTransparency(marker) !== markerHasTransparency(prevMarker)) {
+      releaseStandardInstancedMaterial(prevMarker, this._renderer.materialCache);
       this.mesh.material = standardInstancedMaterial(marker, this._renderer.materialCache);
     }
 
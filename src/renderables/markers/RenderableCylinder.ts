@@ -1,9 +1,10 @@
 import * as THREE from "three";
-import { rgbaEqual } from "../../color";
+
 import { DetailLevel, Renderer } from "../../Renderer";
+import { rgbaEqual } from "../../color";
 import { Marker } from "../../ros";
-import { releaseStandardMaterial, standardMaterial } from "./materials";
 import { RenderableMarker } from "./RenderableMarker";
+import { releaseStandardMaterial, standardMaterial } from "./materials";
 
 export class RenderableCylinder extends RenderableMarker {
   private static _lod: DetailLevel | undefined;
@@ -35,13 +36,15 @@ export class RenderableCylinder extends RenderableMarker {
 
   override dispose(): void {
     releaseStandardMaterial(this.marker, this._renderer.materialCache);
+    super.dispose();
   }
 
   override update(marker: Marker): void {
+    const prevMarker = this.marker;
     super.update(marker);
 
-    if (!rgbaEqual(marker.color, this.marker.color)) {
-      releaseStandardMaterial(marker, this._renderer.materialCache);
+    if (!rgbaEqual(marker.color, prevMarker.color)) {
+      releaseStandardMaterial(prevMarker, this._renderer.materialCache);
       this.mesh.material = standardMaterial(marker, this._renderer.materialCache);
     }
 
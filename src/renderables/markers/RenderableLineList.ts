@@ -1,9 +1,11 @@
 import * as THREE from "three";
 import { LineSegments2 } from "three/examples/jsm/lines/LineSegments2";
 import { LineSegmentsGeometry } from "three/examples/jsm/lines/LineSegmentsGeometry";
-import { approxEquals } from "../../math";
+
 import { Renderer } from "../../Renderer";
+import { approxEquals } from "../../math";
 import { Marker } from "../../ros";
+import { RenderableMarker } from "./RenderableMarker";
 import {
   lineMaterial,
   linePrepassMaterial,
@@ -11,7 +13,6 @@ import {
   releaseLineMaterial,
   releaseLinePrepassMaterial,
 } from "./materials";
-import { RenderableMarker } from "./RenderableMarker";
 
 export class RenderableLineList extends RenderableMarker {
   geometry: LineSegmentsGeometry;
@@ -41,19 +42,21 @@ export class RenderableLineList extends RenderableMarker {
   override dispose(): void {
     releaseLinePrepassMaterial(this.marker, this._renderer.materialCache);
     releaseLineMaterial(this.marker, this._renderer.materialCache);
+    super.dispose();
   }
 
   override update(marker: Marker): void {
+    const prevMarker = this.marker;
     super.update(marker);
 
-    const prevLineWidth = this.marker.scale.x;
-    const prevTransparent = markerHasTransparency(this.marker);
+    const prevLineWidth = prevMarker.scale.x;
+    const prevTransparent = markerHasTransparency(prevMarker);
     const lineWidth = marker.scale.x;
     const transparent = markerHasTransparency(marker);
 
     if (!approxEquals(prevLineWidth, lineWidth) || prevTransparent !== transparent) {
-      releaseLinePrepassMaterial(this.marker, this._renderer.materialCache);
-      releaseLineMaterial(this.marker, this._renderer.materialCache);
+      releaseLinePrepassMaterial(prevMarker, this._renderer.materialCache);
+      releaseLineMaterial(prevMarker, this._renderer.materialCache);
       this.linePrepass.material = linePrepassMaterial(marker, this._renderer.materialCache);
       this.line.material = lineMaterial(marker, this._renderer.materialCache);
     }
@@ -1,10 +1,11 @@
-import { Marker } from "../../ros";
-import { releaseStandardMaterial, standardMaterial } from "./materials";
-import { RenderableMarker } from "./RenderableMarker";
-import { Renderer } from "../../Renderer";
-import { rgbaEqual } from "../../color";
 import * as THREE from "three";
+
 import { StandardColor } from "../../MaterialCache";
+import { Renderer } from "../../Renderer";
+import { rgbaEqual } from "../../color";
+import { Marker } from "../../ros";
+import { RenderableMarker } from "./RenderableMarker";
+import { releaseStandardMaterial, standardMaterial } from "./materials";
 
 type GltfMesh = THREE.Mesh<
   THREE.BufferGeometry,
@@ -29,17 +30,27 @@ export class RenderableMeshResource extends RenderableMarker {
 
   override dispose(): void {
     releaseStandardMaterial(this.marker, this._renderer.materialCache);
+    super.dispose();
   }
 
   override update(marker: Marker): void {
+    const prevMarker = this.marker;
     super.update(marker);
 
-    if (!rgbaEqual(marker.color, this.marker.color)) {
-      releaseStandardMaterial(marker, this._renderer.materialCache);
+    if (!rgbaEqual(marker.color, prevMarker.color)) {
+      const prevMaterial = this.material;
+      releaseStandardMaterial(prevMarker, this._renderer.materialCache);
       this.material = standardMaterial(marker, this._renderer.materialCache);
+
+      // Swap the material on any meshes that were already loaded
+      this.mesh?.traverse((child) => {
+        if (child instanceof THREE.Mesh && child.material === prevMaterial) {
+          child.material = this.material;
+        }
+      });
     }
 
-    if (marker.mesh_resource !== this.marker.mesh_resource) {
+    if (marker.mesh_resource !== prevMarker.mesh_resource) {
       this._loadModel(marker.mesh_resource, marker.mesh_use_embedded_materials).catch(() => {});
     }
 
@@ -1,10 +1,11 @@
 import * as THREE from "three";
+
 import { DynamicBufferAttribute } from "../../DynamicBufferAttribute";
-import { approxEquals } from "../../math";
 import { Renderer } from "../../Renderer";
+import { approxEquals } from "../../math";
 import { Marker } from "../../ros";
-import { markerHasTransparency, pointsMaterial, releasePointsMaterial } from "./materials";
 import { RenderableMarker } from "./RenderableMarker";
+import { markerHasTransparency, pointsMaterial, releasePointsMaterial } from "./materials";
 
 export class RenderablePoints extends RenderableMarker {
   geometry: THREE.BufferGeometry;
@@ -32,14 +33,16 @@ export class RenderablePoints extends RenderableMarker {
 
   override dispose(): void {
     releasePointsMaterial(this.marker, this._renderer.materialCache);
+    super.dispose();
   }
 
   override update(marker: Marker): void {
+    const prevMarker = this.marker;
     super.update(marker);
 
-    const prevWidth = this.marker.scale.x;
-    const prevHeight = this.marker.scale.y;
-    const prevTransparent = markerHasTransparency(this.marker);
+    const prevWidth = prevMarker.scale.x;
+    const prevHeight = prevMarker.scale.y;
+    const prevTransparent = markerHasTransparency(prevMarker);
     const width = marker.scale.x;
     const height = marker.scale.y;
     const transparent = markerHasTransparency(marker);
@@ -49,7 +52,7 @@ export class RenderablePoints extends RenderableMarker {
       !approxEquals(prevHeight, height) ||
       prevTransparent !== transparent
     ) {
-      releasePointsMaterial(this.marker, this._renderer.materialCache);
+      releasePointsMaterial(prevMarker, this._renderer.materialCache);
       this.points.material = pointsMaterial(marker, this._renderer.materialCache);
     }
 
@@ -58,7 +61,9 @@ export class RenderablePoints extends RenderableMarker {
   }
 
   private _setPositions(marker: Marker): void {
-    this.positionAttribute.resize(marker.points.length);
+    if (this.positionAttribute.resize(marker.points.length)) {
+      this.geometry.dispose();
+    }
 
     const positions = this.positionAttribute.data;
     for (let i = 0; i < marker.points.length; i++) {
@@ -73,7 +78,9 @@ export class RenderablePoints extends RenderableMarker {
   private _setColors(marker: Marker): void {
     // Converts color-per-point to a flattened typed array
     const length = marker.points.length;
-    this.colorAttribute.resize(length);
+    if (this.colorAttribute.resize(length)) {
+      this.geometry.dispose();
+    }
     const rgbaData = this.colorAttribute.data;
     this._markerColorsToLinear(marker, (color, i) => {
       rgbaData[4 * i + 0] = color[0];
@@ -1,13 +1,14 @@
 import * as THREE from "three";
+
 import { DynamicInstancedMesh } from "../../DynamicInstancedMesh";
 import { DetailLevel, Renderer } from "../../Renderer";
 import { Marker } from "../../ros";
+import { RenderableMarker } from "./RenderableMarker";
 import {
   markerHasTransparency,
   releaseStandardInstancedMaterial,
   standardInstancedMaterial,
 } from "./materials";
-import { RenderableMarker } from "./RenderableMarker";
 
 export class RenderableSphereList extends RenderableMarker {
   private static _lod: DetailLevel | undefined;
@@ -34,13 +35,15 @@ export class RenderableSphereList extends RenderableMarker {
 
   override dispose(): void {
     releaseStandardInstancedMaterial(this.marker, this._renderer.materialCache);
+    super.dispose();
   }
 
   override update(marker: Marker): void {
+    const prevMarker = this.marker;
     super.update(marker);
 
-    if (markerHasTransparency(marker) !== markerHasTransparency(this.marker)) {
-      releaseStandardInstancedMaterial(marker, this._renderer.materialCache);
+    if (markerHasTransparency(marker) !== markerHasTransparency(prevMarker)) {
+      releaseStandardInstancedMaterial(prevMarker, this._renderer.materialCache);
       this.mesh.material = standardInstancedMaterial(marker, this._renderer.materialCache);
     }
 
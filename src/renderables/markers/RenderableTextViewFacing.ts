@@ -1,10 +1,88 @@
-function getMarkerId(topic: string, ns: string, id: number): string {
-  return `${topic}:${ns ? ns + ":" : ""}${id}`.replace(/\s/g, "_");
-}
+import * as THREE from "three";
+
+import { DynamicBufferAttribute } from "../../DynamicBufferAttribute";
+import { Renderer } from "../../Renderer";
+import { rgbaEqual } from "../../color";
+import { approxEquals } from "../../math";
+import { Marker } from "../../ros";
+import { RenderableMarker } from "./RenderableMarker";
+import { releaseTextMaterial, textMaterial } from "./materials";
+
+export class RenderableTextViewFacing extends RenderableMarker {
+  geometry: THREE.BufferGeometry;
+  positionAttribute: DynamicBufferAttribute<Float32Array, Float32ArrayConstructor>;
+  uvAttribute: DynamicBufferAttribute<Float32Array, Float32ArrayConstructor>;
+  mesh: THREE.Mesh<THREE.BufferGeometry, THREE.ShaderMaterial>;
+
+  constructor(topic: string, marker: Marker, renderer: Renderer) {
+    super(topic, marker, renderer);
+
+    this.geometry = new THREE.BufferGeometry();
+    this.positionAttribute = new DynamicBufferAttribute(Float32Array, 3);
+    this.uvAttribute = new DynamicBufferAttribute(Float32Array, 2);
+    this.geometry.setAttribute("position", this.positionAttribute);
+    this.geometry.setAttribute("uv", this.uvAttribute);
+    this.geometry.boundingSphere = new THREE.Sphere();
+
+    const material = textMaterial(marker, renderer.materialCache, renderer.glyphAtlas.texture);
+    this.mesh = new THREE.Mesh(this.geometry, material);
+    this.add(this.mesh);
+
+    this._setText(marker);
+    this.update(marker);
+  }
+
+  override dispose(): void {
+    releaseTextMaterial(this.marker, this._renderer.materialCache);
+    this.geometry.dispose();
+    super.dispose();
+  }
 
-//   if (marker.text) {
-//     // FIXME: Track shown labels to avoid duplicate emits and to emit removeLabel
-//     const topic = renderable.userData.topic!;
-//     const markerId = getMarkerId(topic, marker.ns, marker.id);
-//     this.renderer.emit("showLabel", markerId, marker, this.renderer);
-//   }
+  override update(marker: Marker): void {
+    const prevMarker = this.marker;
+    super.update(marker);
+
+    if (!rgbaEqual(marker.color, prevMarker.color)) {
+      releaseTextMaterial(prevMarker, this._renderer.materialCache);
+      this.mesh.material = textMaterial(
+        marker,
+        this._renderer.materialCache,
+        this._renderer.glyphAtlas.texture,
+      );
+    }
+
+    // Only rebuild the glyph quads when the text or text height changes
+    if (marker.text !== prevMarker.text || !approxEquals(marker.scale.z, prevMarker.scale.z)) {
+      this._setText(marker);
+    }
+  }
+
+  private _setText(marker: Marker): void {
+    // marker.scale.z is the height of an uppercase "A" in RViz, which is close
+    // enough to the line height for our purposes
+    const layout = this._renderer.glyphAtlas.layout(marker.text, marker.scale.z);
+
+    const positionsGrew = this.positionAttribute.resize(layout.vertexCount);
+    const uvsGrew = this.uvAttribute.resize(layout.vertexCount);
+    if (positionsGrew || uvsGrew) {
+      // Longer text than before doesn't fit in the existing GL buffers
+      this.geometry.dispose();
+    }
+
+    this.positionAttribute.data.set(layout.positions, 0);
+    this.positionAttribute.needsUpdate = true;
+
+    this.uvAttribute.data.set(layout.uvs, 0);
+    this.uvAttribute.needsUpdate = true;
+
+    // Vertices are offset in view space by the shader, so the text can point
+    // in any direction around the origin. Bound all possible orientations
+    let radiusSq = 0;
+    for (let i = 0; i < layout.vertexCount; i++) {
+      const x = layout.positions[i * 3 + 0]!;
+      const y = layout.positions[i * 3 + 1]!;
+      radiusSq = Math.max(radiusSq, x * x + y * y);
+    }
+    this.geometry.boundingSphere!.set(new THREE.Vector3(), Math.sqrt(radiusSq));
+  }
+}
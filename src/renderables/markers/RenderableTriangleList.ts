@@ -0,0 +1,107 @@
+import * as THREE from "three";
+
+import { DynamicBufferAttribute } from "../../DynamicBufferAttribute";
+import { Renderer } from "../../Renderer";
+import { Marker } from "../../ros";
+import { RenderableMarker } from "./RenderableMarker";
+import {
+  markerHasTransparency,
+  releaseStandardVertexColorMaterial,
+  standardVertexColorMaterial,
+} from "./materials";
+
+export class RenderableTriangleList extends RenderableMarker {
+  geometry: THREE.BufferGeometry;
+  positionAttribute: DynamicBufferAttribute<Float32Array, Float32ArrayConstructor>;
+  normalAttribute: DynamicBufferAttribute<Float32Array, Float32ArrayConstructor>;
+  colorAttribute: DynamicBufferAttribute<Float32Array, Float32ArrayConstructor>;
+  mesh: THREE.Mesh<THREE.BufferGeometry, THREE.MeshStandardMaterial>;
+
+  constructor(topic: string, marker: Marker, renderer: Renderer) {
+    super(topic, marker, renderer);
+
+    // Attribute arrays are reused while the vertex count fits, and the GL
+    // buffers are recreated when they grow
+    this.geometry = new THREE.BufferGeometry();
+    this.positionAttribute = new DynamicBufferAttribute(Float32Array, 3);
+    this.normalAttribute = new DynamicBufferAttribute(Float32Array, 3);
+    this.colorAttribute = new DynamicBufferAttribute(Float32Array, 4);
+    this.geometry.setAttribute("position", this.positionAttribute);
+    this.geometry.setAttribute("normal", this.normalAttribute);
+    this.geometry.setAttribute("color", this.colorAttribute);
+
+    const material = standardVertexColorMaterial(marker, renderer.materialCache);
+    this.mesh = new THREE.Mesh(this.geometry, material);
+    this.mesh.castShadow = true;
+    this.mesh.receiveShadow = true;
+    this.add(this.mesh);
+
+    this._setPositions(marker);
+    this._setColors(marker);
+    this.update(marker);
+  }
+
+  override dispose(): void {
+    releaseStandardVertexColorMaterial(this.marker, this._renderer.materialCache);
+    this.geometry.dispose();
+    super.dispose();
+  }
+
+  override update(marker: Marker): void {
+    const prevMarker = this.marker;
+    super.update(marker);
+
+    if (markerHasTransparency(marker) !== markerHasTransparency(prevMarker)) {
+      releaseStandardVertexColorMaterial(prevMarker, this._renderer.materialCache);
+      this.mesh.material = standardVertexColorMaterial(marker, this._renderer.materialCache);
+    }
+
+    if (marker !== prevMarker) {
+      this._setPositions(marker);
+      this._setColors(marker);
+    }
+
+    this.scale.set(marker.scale.x, marker.scale.y, marker.scale.z);
+  }
+
+  private _setPositions(marker: Marker): void {
+    // Ignore any trailing points that don't form a complete triangle
+    const vertexCount = marker.points.length - (marker.points.length % 3);
+    const positionsGrew = this.positionAttribute.resize(vertexCount);
+    const normalsGrew = this.normalAttribute.resize(vertexCount);
+    if (positionsGrew || normalsGrew) {
+      this.geometry.dispose();
+    }
+
+    const positions = this.positionAttribute.data;
+    for (let i = 0; i < vertexCount; i++) {
+      const point = marker.points[i]!;
+      positions[i * 3 + 0] = point.x;
+      positions[i * 3 + 1] = point.y;
+      positions[i * 3 + 2] = point.z;
+    }
+    this.positionAttribute.needsUpdate = true;
+
+    // Writes into the existing normal attribute
+    this.geometry.computeVertexNormals();
+    this.geometry.computeBoundingSphere();
+  }
+
+  private _setColors(marker: Marker): void {
+    const vertexCount = this.positionAttribute.count;
+    if (this.colorAttribute.resize(vertexCount)) {
+      this.geometry.dispose();
+    }
+    const rgbaData = this.colorAttribute.data;
+    this._markerColorsToLinear(marker, (color, i) => {
+      if (i >= vertexCount) {
+        return;
+      }
+      rgbaData[4 * i + 0] = color[0];
+      rgbaData[4 * i + 1] = color[1];
+      rgbaData[4 * i + 2] = color[2];
+      rgbaData[4 * i + 3] = color[3];
+    });
+    this.colorAttribute.needsUpdate = true;
+  }
+}
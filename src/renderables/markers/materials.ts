@@ -1,4 +1,5 @@
 import * as THREE from "three";
+
 import { LineMaterial } from "../../LineMaterial";
 import {
   LineVertexColor,
@@ -7,6 +8,8 @@ import {
   PointsVertexColor,
   StandardColor,
   StandardInstancedColor,
+  StandardVertexColor,
+  TextColor,
 } from "../../MaterialCache";
 import { Marker, MarkerType } from "../../ros";
 
@@ -70,6 +73,26 @@ export function releaseStandardInstancedMaterial(
   materialCache.release(StandardInstancedColor.id(transparent));
 }
 
+export function standardVertexColorMaterial(
+  marker: Marker,
+  materialCache: MaterialCache,
+): THREE.MeshStandardMaterial {
+  const transparent = markerHasTransparency(marker);
+  return materialCache.acquire(
+    StandardVertexColor.id(transparent),
+    () => StandardVertexColor.create(transparent),
+    StandardVertexColor.dispose,
+  );
+}
+
+export function releaseStandardVertexColorMaterial(
+  marker: Marker,
+  materialCache: MaterialCache,
+): void {
+  const transparent = markerHasTransparency(marker);
+  materialCache.release(StandardVertexColor.id(transparent));
+}
+
 export function linePrepassMaterial(marker: Marker, materialCache: MaterialCache): LineMaterial {
   const lineWidth = marker.scale.x;
   const transparent = markerHasTransparency(marker);
@@ -115,3 +138,19 @@ export function releasePointsMaterial(marker: Marker, materialCache: MaterialCac
   const transparent = markerHasTransparency(marker);
   materialCache.release(PointsVertexColor.id(marker.scale, transparent));
 }
+
+export function textMaterial(
+  marker: Marker,
+  materialCache: MaterialCache,
+  atlas: THREE.Texture,
+): THREE.ShaderMaterial {
+  return materialCache.acquire(
+    TextColor.id(marker.color),
+    () => TextColor.create(marker.color, atlas),
+    TextColor.dispose,
+  );
+}
+
+export function releaseTextMaterial(marker: Marker, materialCache: MaterialCache): void {
+  materialCache.release(TextColor.id(marker.color));
+}
@@ -0,0 +1,269 @@
+import * as THREE from "three";
+
+import { DynamicBufferAttribute } from "../DynamicBufferAttribute";
+import { Renderer } from "../Renderer";
+import { hexStringToRgb, rgbToColor } from "../color";
+import { COLOR_MAP_NAMES, colorMapIndex, colorMapLookupTable } from "../colormaps";
+import { PointCloudColorMode, PointCloudConfig } from "../config";
+import { Pose } from "../ros";
+import { SettingsTreeAction, SettingsTreeField } from "../settings";
+import { makePose } from "../transforms";
+
+// Shared rendering and settings for topics drawn as colored points, such as
+// PointCloud2 and LaserScan
+
+export const DEFAULT_POINT_SIZE = 2; // [px]
+export const DEFAULT_FLAT_COLOR = "#ffffff";
+
+// Keys of the `pointsSettingsFields()`, which are stored in `TopicConfig.pointCloud`
+const POINTS_KEYS = new Set<string>([
+  "pointSize",
+  "colorMode",
+  "flatColor",
+  "colorField",
+  "colorMap",
+  "minValue",
+  "maxValue",
+]);
+
+export type PointsRenderable = THREE.Object3D & {
+  userData: {
+    topic: string;
+    pose: Pose;
+    srcTime: bigint;
+    geometry: THREE.BufferGeometry;
+    positionAttribute: DynamicBufferAttribute<Float32Array, Float32ArrayConstructor>;
+    colorAttribute: DynamicBufferAttribute<Float32Array, Float32ArrayConstructor>;
+    material: THREE.PointsMaterial;
+    // Observed range of the color field in the latest message
+    minValue?: number;
+    maxValue?: number;
+  };
+};
+
+export function createPointsRenderable(topic: string, srcTime: bigint): PointsRenderable {
+  const geometry = new THREE.BufferGeometry();
+  const positionAttribute = new DynamicBufferAttribute<Float32Array, Float32ArrayConstructor>(
+    Float32Array,
+    3,
+  );
+  const colorAttribute = new DynamicBufferAttribute<Float32Array, Float32ArrayConstructor>(
+    Float32Array,
+    4,
+  );
+  geometry.setAttribute("position", positionAttribute);
+  geometry.setAttribute("color", colorAttribute);
+
+  const material = new THREE.PointsMaterial({
+    size: DEFAULT_POINT_SIZE,
+    sizeAttenuation: false,
+    vertexColors: true,
+  });
+
+  const renderable = new THREE.Object3D() as PointsRenderable;
+  renderable.name = topic;
+  renderable.userData = {
+    topic,
+    pose: makePose(),
+    srcTime,
+    geometry,
+    positionAttribute,
+    colorAttribute,
+    material,
+  };
+  renderable.add(new THREE.Points(geometry, material));
+  return renderable;
+}
+
+export function disposePointsRenderable(renderable: PointsRenderable): void {
+  renderable.userData.geometry.dispose();
+  renderable.userData.material.dispose();
+}
+
+/** Point display options for a topic, from the `pointCloud` section of its config */
+export function pointsConfig(renderer: Renderer, topic: string): PointCloudConfig {
+  return renderer.config.topics[topic]?.pointCloud ?? {};
+}
+
+export function updatePointSize(renderable: PointsRenderable, config: PointCloudConfig): void {
+  const material = renderable.userData.material;
+  const pointSize = config.pointSize ?? DEFAULT_POINT_SIZE;
+  if (material.size !== pointSize) {
+    material.size = pointSize;
+  }
+}
+
+/**
+ * Settings fields for a points topic. Only the fields relevant to the current
+ * color mode are returned.
+ */
+export function pointsSettingsFields(options: {
+  config: PointCloudConfig;
+  renderable: PointsRenderable | undefined;
+  colorModes: ReadonlyArray<PointCloudColorMode>;
+  colorMode: PointCloudColorMode | undefined;
+  colorFields: ReadonlyArray<string>;
+  colorField: string | undefined;
+}): Record<string, SettingsTreeField | undefined> {
+  const { config, renderable, colorModes, colorMode, colorFields, colorField } = options;
+  const colorMap = colorMode === "colormap";
+  return {
+    pointSize: {
+      input: "number",
+      label: "Point size",
+      value: config.pointSize,
+      placeholder: String(DEFAULT_POINT_SIZE),
+      min: 1,
+      step: 1,
+    },
+    colorMode: {
+      input: "select",
+      label: "Color mode",
+      value: colorMode,
+      options: colorModes.map((mode) => ({ label: mode, value: mode })),
+    },
+    flatColor:
+      colorMode === "flat"
+        ? { input: "color", label: "Color", value: config.flatColor }
+        : undefined,
+    colorField: colorMap
+      ? {
+          input: "select",
+          label: "Color by",
+          value: colorField,
+          options: colorFields.map((name) => ({ label: name, value: name })),
+        }
+      : undefined,
+    colorMap: colorMap
+      ? {
+          input: "select",
+          label: "Color map",
+          value: config.colorMap ?? "turbo",
+          options: COLOR_MAP_NAMES.map((name) => ({ label: name, value: name })),
+        }
+      : undefined,
+    minValue: colorMap
+      ? {
+          input: "number",
+          label: "Min value",
+          value: config.minValue,
+          placeholder: autoValuePlaceholder(renderable?.userData.minValue),
+        }
+      : undefined,
+    maxValue: colorMap
+      ? {
+          input: "number",
+          label: "Max value",
+          value: config.maxValue,
+          placeholder: autoValuePlaceholder(renderable?.userData.maxValue),
+        }
+      : undefined,
+  };
+}
+
+/**
+ * Store an edit of one of the `pointsSettingsFields()` in the topic config.
+ * Returns the edited topic, or undefined if the action is not a points field.
+ */
+export function handlePointsSettingsAction(
+  renderer: Renderer,
+  action: SettingsTreeAction,
+): string | undefined {
+  // ["topics", topic, key]
+  const { path, value } = action;
+  if (path.length !== 3 || !POINTS_KEYS.has(path[2]!)) {
+    return undefined;
+  }
+  const topic = path[1]!;
+  const key = path[2] as keyof PointCloudConfig;
+  renderer.updateConfig((config) => {
+    const topicConfig = config.topics[topic] ?? {};
+    return {
+      ...config,
+      topics: {
+        ...config.topics,
+        [topic]: { ...topicConfig, pointCloud: { ...topicConfig.pointCloud, [key]: value } },
+      },
+    };
+  });
+  return topic;
+}
+
+/**
+ * Fill `colors` (linear RGBA) for `count` points by mapping `values` through
+ * the configured color map. The observed value range is stored on the
+ * renderable and used unless the config sets a fixed range.
+ */
+export function fillColorMapColors(
+  renderable: PointsRenderable,
+  config: PointCloudConfig,
+  colors: Float32Array,
+  values: ArrayLike<number>,
+  count: number,
+): void {
+  let minValue = Number.POSITIVE_INFINITY;
+  let maxValue = Number.NEGATIVE_INFINITY;
+  for (let i = 0; i < count; i++) {
+    const value = values[i]!;
+    if (isFinite(value)) {
+      minValue = Math.min(minValue, value);
+      maxValue = Math.max(maxValue, value);
+    }
+  }
+  renderable.userData.minValue = isFinite(minValue) ? minValue : undefined;
+  renderable.userData.maxValue = isFinite(maxValue) ? maxValue : undefined;
+
+  const lut = colorMapLookupTable(config.colorMap ?? "turbo");
+  const min = config.minValue ?? minValue;
+  const max = config.maxValue ?? maxValue;
+  for (let i = 0; i < count; i++) {
+    const index = colorMapIndex(values[i]!, min, max);
+    colors[i * 4 + 0] = lut[index + 0]!;
+    colors[i * 4 + 1] = lut[index + 1]!;
+    colors[i * 4 + 2] = lut[index + 2]!;
+    colors[i * 4 + 3] = 1;
+  }
+}
+
+/** Fill `colors` (linear RGBA) for `count` points with the configured flat color */
+export function fillFlatColors(
+  config: PointCloudConfig,
+  colors: Float32Array,
+  count: number,
+): void {
+  const rgb = hexStringToRgb(config.flatColor ?? DEFAULT_FLAT_COLOR) ?? { r: 1, g: 1, b: 1 };
+  const color = rgbToColor(rgb);
+  for (let i = 0; i < count; i++) {
+    colors[i * 4 + 0] = color.r;
+    colors[i * 4 + 1] = color.g;
+    colors[i * 4 + 2] = color.b;
+    colors[i * 4 + 3] = 1;
+  }
+}
+
+/**
+ * Resize the position and color attributes to hold `count` points. When the
+ * attributes grow, the geometry is disposed so the next render uploads them
+ * into new GL buffers instead of overflowing the old ones
+ */
+export function resizePoints(renderable: PointsRenderable, count: number): void {
+  const { positionAttribute, colorAttribute, geometry } = renderable.userData;
+  const positionsGrew = positionAttribute.resize(count);
+  const colorsGrew = colorAttribute.resize(count);
+  if (positionsGrew || colorsGrew) {
+    geometry.dispose();
+  }
+}
+
+/** Upload the first `count` points of the position and color attributes */
+export function finishPointsUpdate(renderable: PointsRenderable, count: number): void {
+  const { positionAttribute, colorAttribute, geometry } = renderable.userData;
+  resizePoints(renderable, count);
+  positionAttribute.needsUpdate = true;
+  colorAttribute.needsUpdate = true;
+  geometry.computeBoundingSphere();
+}
+
+function autoValuePlaceholder(value: number | undefined): string {
+  return value != undefined ? `Auto (${Number(value.toPrecision(4))})` : "Auto";
+}
@@ -0,0 +1,394 @@
+import * as THREE from "three";
+
+import { StandardColor } from "../MaterialCache";
+import { Renderer } from "../Renderer";
+import { hexStringToRgb } from "../color";
+import { PoseConfig, PoseDisplayType } from "../config";
+import { symmetricEigen3 } from "../math";
+import { ColorRGBA, Marker, MarkerAction, MarkerType, Pose, Vector3 } from "../ros";
+import { SettingsTreeAction, SettingsTreeField } from "../settings";
+import { makePose } from "../transforms";
+import { RenderableArrow } from "./markers/RenderableArrow";
+import { RenderableSphere } from "./markers/RenderableSphere";
+
+// Shared rendering and settings for topics drawn as one or more poses, such
+// as PoseStamped, PoseArray and PoseWithCovarianceStamped
+
+export const DEFAULT_POSE_TYPE: PoseDisplayType = "arrow";
+export const DEFAULT_POSE_SIZE = 1; // [m]
+export const DEFAULT_POSE_COLOR = "#ff1900";
+export const DEFAULT_COVARIANCE_COLOR = "#c457ff";
+export const DEFAULT_COVARIANCE_SCALE = 1; // [standard deviations]
+
+const POSE_TYPES: ReadonlyArray<PoseDisplayType> = ["arrow", "axis"];
+const ARROW_DIAMETER_RATIO = 0.1;
+const COVARIANCE_ALPHA = 0.3;
+// Orientation uncertainty beyond this is drawn as a cone of this half-angle
+const MAX_CONE_HALF_ANGLE = THREE.MathUtils.degToRad(80);
+
+const tempEigenvectors = new THREE.Matrix3();
+const tempBasis = new THREE.Matrix4();
+const tempX = new THREE.Vector3();
+const tempY = new THREE.Vector3();
+const tempZ = new THREE.Vector3();
+
+export type PoseRenderable = THREE.Object3D & {
+  userData: {
+    topic: string;
+    frameId: string;
+    // Poses are placed relative to the origin of `frameId`
+    pose: Pose;
+    srcTime: bigint;
+    // One arrow or axis per pose
+    items: THREE.Object3D[];
+    itemType: PoseDisplayType | undefined;
+    covarianceObject: CovarianceRenderable | undefined;
+  };
+};
+
+type CovarianceRenderable = THREE.Object3D & {
+  userData: {
+    color: ColorRGBA;
+    ellipsoid: THREE.Mesh<THREE.SphereGeometry, THREE.Material>;
+    cone: THREE.Mesh<THREE.ConeGeometry, THREE.Material>;
+  };
+};
+
+let coneGeometry: THREE.ConeGeometry | undefined;
+
+export function createPoseRenderable(
+  topic: string,
+  frameId: string,
+  srcTime: bigint,
+): PoseRenderable {
+  const renderable = new THREE.Object3D() as PoseRenderable;
+  renderable.name = topic;
+  renderable.userData = {
+    topic,
+    frameId,
+    pose: makePose(),
+    srcTime,
+    items: [],
+    itemType: undefined,
+    covarianceObject: undefined,
+  };
+  return renderable;
+}
+
+export function disposePoseRenderable(renderer: Renderer, renderable: PoseRenderable): void {
+  disposeItems(renderable);
+  disposeCovariance(renderer, renderable);
+}
+
+/** Pose display options for a topic, from the `pose` section of its config */
+export function poseConfig(renderer: Renderer, topic: string): PoseConfig {
+  return renderer.config.topics[topic]?.pose ?? {};
+}
+
+/**
+ * Draw `poses` as arrows or axes, and optionally the uncertainty described by
+ * a 6x6 covariance around the first pose. Existing objects are reused when
+ * the number of poses and display type are unchanged.
+ */
+export function updatePoseRenderable(
+  renderer: Renderer,
+  renderable: PoseRenderable,
+  poses: ReadonlyArray<Pose>,
+  covariance: ArrayLike<number> | undefined,
+): void {
+  const { topic } = renderable.userData;
+  const config = poseConfig(renderer, topic);
+  const type = config.type ?? DEFAULT_POSE_TYPE;
+  const size = config.size ?? DEFAULT_POSE_SIZE;
+  const color = colorFromHex(renderer.config.topics[topic]?.color ?? DEFAULT_POSE_COLOR, 1);
+  updatePoseItems(renderer, renderable, poses, type, size, color);
+
+  const firstPose = poses[0];
+  if (firstPose && covariance && covariance.length >= 36 && config.showCovariance !== false) {
+    updateCovariance(renderer, renderable, config, firstPose, covariance);
+  } else {
+    disposeCovariance(renderer, renderable);
+  }
+}
+
+/**
+ * Draw an arrow or axis of the given size at each of `poses`, reusing the
+ * existing objects when the number of poses and display type are unchanged.
+ */
+export function updatePoseItems(
+  renderer: Renderer,
+  renderable: PoseRenderable,
+  poses: ReadonlyArray<Pose>,
+  type: PoseDisplayType,
+  size: number,
+  color: ColorRGBA,
+): void {
+  const { topic } = renderable.userData;
+  if (renderable.userData.itemType !== type || renderable.userData.items.length !== poses.length) {
+    disposeItems(renderable);
+    renderable.userData.itemType = type;
+    for (let i = 0; i < poses.length; i++) {
+      const item =
+        type === "arrow"
+          ? new RenderableArrow(topic, arrowMarker(i, color, size), renderer)
+          : new THREE.AxesHelper(1);
+      renderable.userData.items.push(item);
+      renderable.add(item);
+    }
+  }
+
+  for (let i = 0; i < poses.length; i++) {
+    const pose = poses[i]!;
+    const item = renderable.userData.items[i]!;
+    if (item instanceof RenderableArrow) {
+      item.update(arrowMarker(i, color, size));
+    } else {
+      item.scale.setScalar(size);
+    }
+    item.position.set(pose.position.x, pose.position.y, pose.position.z);
+    const q = pose.orientation;
+    item.quaternion.set(q.x, q.y, q.z, q.w);
+  }
+}
+
+/** Settings fields for a pose topic. Covariance fields are only shown when relevant */
+export function poseSettingsFields(
+  renderer: Renderer,
+  topic: string,
+  hasCovariance: boolean,
+): Record<string, SettingsTreeField | undefined> {
+  const config = poseConfig(renderer, topic);
+  const showCovariance = hasCovariance && config.showCovariance !== false;
+  return {
+    type: {
+      input: "select",
+      label: "Type",
+      value: config.type ?? DEFAULT_POSE_TYPE,
+      options: POSE_TYPES.map((type) => ({ label: type, value: type })),
+    },
+    size: {
+      input: "number",
+      label: "Size",
+      value: config.size,
+      placeholder: String(DEFAULT_POSE_SIZE),
+      min: 0,
+      step: 0.1,
+    },
+    color: {
+      input: "color",
+      label: "Color",
+      value: renderer.config.topics[topic]?.color ?? DEFAULT_POSE_COLOR,
+    },
+    showCovariance: hasCovariance
+      ? { input: "boolean", label: "Covariance", value: config.showCovariance ?? true }
+      : undefined,
+    covarianceColor: showCovariance
+      ? {
+          input: "color",
+          label: "Covariance color",
+          value: config.covarianceColor ?? DEFAULT_COVARIANCE_COLOR,
+        }
+      : undefined,
+    covarianceScale: showCovariance
+      ? {
+          input: "number",
+          label: "Covariance scale",
+          value: config.covarianceScale,
+          placeholder: String(DEFAULT_COVARIANCE_SCALE),
+          min: 0,
+          step: 0.5,
+        }
+      : undefined,
+  };
+}
+
+/**
+ * Store an edit of one of the `poseSettingsFields()` in the topic config.
+ * Returns the edited topic, or undefined if the action is not a pose field.
+ */
+export function handlePoseSettingsAction(
+  renderer: Renderer,
+  action: SettingsTreeAction,
+): string | undefined {
+  // ["topics", topic, key]
+  const { path, value } = action;
+  if (path.length !== 3 || path[2] === "visible") {
+    return undefined;
+  }
+  const topic = path[1]!;
+  const key = path[2]!;
+  renderer.updateConfig((config) => {
+    const topicConfig = config.topics[topic] ?? {};
+    const newTopicConfig =
+      key === "color"
+        ? { ...topicConfig, color: typeof value === "string" ? value : undefined }
+        : { ...topicConfig, pose: { ...topicConfig.pose, [key]: value } };
+    return { ...config, topics: { ...config.topics, [topic]: newTopicConfig } };
+  });
+  return topic;
+}
+
+function updateCovariance(
+  renderer: Renderer,
+  renderable: PoseRenderable,
+  config: PoseConfig,
+  pose: Pose,
+  covariance: ArrayLike<number>,
+): void {
+  const color = colorFromHex(config.covarianceColor ?? DEFAULT_COVARIANCE_COLOR, COVARIANCE_ALPHA);
+  let object = renderable.userData.covarianceObject;
+  if (object && StandardColor.id(object.userData.color) !== StandardColor.id(color)) {
+    disposeCovariance(renderer, renderable);
+    object = undefined;
+  }
+  if (!object) {
+    object = createCovariance(renderer, color);
+    renderable.userData.covarianceObject = object;
+    renderable.add(object);
+  }
+
+  const sigmas = config.covarianceScale ?? DEFAULT_COVARIANCE_SCALE;
+  const { ellipsoid, cone } = object.userData;
+  object.position.set(pose.position.x, pose.position.y, pose.position.z);
+
+  // Position ellipsoid, from the xyz block of the covariance. Its axes are
+  // the eigenvectors and its radii are the standard deviations along them
+  const positionCovariance = [
+    covariance[0]!,
+    covariance[1]!,
+    covariance[2]!,
+    covariance[6]!,
+    covariance[7]!,
+    covariance[8]!,
+    covariance[12]!,
+    covariance[13]!,
+    covariance[14]!,
+  ];
+  const variances = symmetricEigen3(positionCovariance, tempEigenvectors);
+  tempEigenvectors.extractBasis(tempX, tempY, tempZ);
+  if (tempZ.dot(tempX.clone().cross(tempY)) < 0) {
+    // Keep the basis right-handed so it is a pure rotation
+    tempZ.negate();
+  }
+  tempBasis.makeBasis(tempX, tempY, tempZ);
+  ellipsoid.quaternion.setFromRotationMatrix(tempBasis);
+  ellipsoid.scale.set(
+    2 * sigmas * Math.sqrt(Math.max(variances[0], 0)),
+    2 * sigmas * Math.sqrt(Math.max(variances[1], 0)),
+    2 * sigmas * Math.sqrt(Math.max(variances[2], 0)),
+  );
+
+  // Orientation cone, from the pitch and yaw block of the covariance. Pitch
+  // tilts the pose x-axis toward -z and yaw toward +y, so the cone cross
+  // section is the (yaw, -pitch) covariance ellipse. Roll uncertainty does
+  // not move the x-axis and is not shown. Angles are treated as small
+  // rotations about the pose's own axes
+  const yawVar = covariance[35]!;
+  const pitchVar = covariance[28]!;
+  const yawPitchCov = -covariance[29]!;
+  const mean = (yawVar + pitchVar) / 2;
+  const halfDiff = (yawVar - pitchVar) / 2;
+  const radius = Math.sqrt(halfDiff * halfDiff + yawPitchCov * yawPitchCov);
+  const angle = 0.5 * Math.atan2(2 * yawPitchCov, yawVar - pitchVar);
+  const halfAngle1 = Math.min(sigmas * Math.sqrt(Math.max(mean + radius, 0)), MAX_CONE_HALF_ANGLE);
+  const halfAngle2 = Math.min(sigmas * Math.sqrt(Math.max(mean - radius, 0)), MAX_CONE_HALF_ANGLE);
+
+  const length = (config.size ?? DEFAULT_POSE_SIZE) * 0.5;
+  const q = pose.orientation;
+  cone.quaternion.set(q.x, q.y, q.z, q.w);
+  cone.quaternion.multiply(new THREE.Quaternion().setFromAxisAngle(tempX.set(1, 0, 0), angle));
+  cone.scale.set(length, 2 * length * Math.tan(halfAngle1), 2 * length * Math.tan(halfAngle2));
+}
+
+function createCovariance(renderer: Renderer, color: ColorRGBA): CovarianceRenderable {
+  const material = renderer.materialCache.acquire(
+    StandardColor.id(color),
+    () => StandardColor.create(color),
+    StandardColor.dispose,
+  );
+  const ellipsoid = new THREE.Mesh(RenderableSphere.geometry(renderer.lod), material);
+  const cone = new THREE.Mesh(covarianceConeGeometry(), material);
+
+  const object = new THREE.Object3D() as CovarianceRenderable;
+  object.userData = { color, ellipsoid, cone };
+  object.add(ellipsoid);
+  object.add(cone);
+  return object;
+}
+
+function disposeCovariance(renderer: Renderer, renderable: PoseRenderable): void {
+  const object = renderable.userData.covarianceObject;
+  if (object) {
+    renderer.materialCache.release(StandardColor.id(object.userData.color));
+    renderable.remove(object);
+    renderable.userData.covarianceObject = undefined;
+  }
+}
+
+function disposeItems(renderable: PoseRenderable): void {
+  for (const item of renderable.userData.items) {
+    if (item instanceof RenderableArrow) {
+      item.dispose();
+    } else if (item instanceof THREE.AxesHelper) {
+      item.dispose();
+    }
+    renderable.remove(item);
+  }
+  renderable.userData.items.length = 0;
+  renderable.userData.itemType = undefined;
+}
+
+// A unit-length cone with its apex at the origin, opening along +x
+function covarianceConeGeometry(): THREE.ConeGeometry {
+  if (!coneGeometry) {
+    coneGeometry = new THREE.ConeGeometry(0.5, 1, 24, 1, false);
+    coneGeometry.rotateZ(Math.PI / 2);
+    coneGeometry.translate(0.5, 0, 0);
+    coneGeometry.computeBoundingSphere();
+  }
+  return coneGeometry;
+}
+
+/** Convert a "#rrggbb" config color into an sRGB marker color */
+export function colorFromHex(hex: string, alpha: number): ColorRGBA {
+  const rgb = hexStringToRgb(hex) ?? { r: 1, g: 1, b: 1 };
+  return { ...rgb, a: alpha };
+}
+
+/**
+ * A marker for driving the marker renderables, such as `RenderableArrow`,
+ * from other message types. The marker has an identity pose, so the
+ * renderable is placed by its parent.
+ */
+export function syntheticMarker(
+  type: MarkerType,
+  id: number,
+  scale: Vector3,
+  color: ColorRGBA,
+  points: Vector3[] = [],
+): Marker {
+  return {
+    header: { frame_id: "", stamp: { sec: 0, nsec: 0 } },
+    ns: "",
+    id,
+    type,
+    action: MarkerAction.ADD,
+    pose: makePose(),
+    scale,
+    color,
+    lifetime: { sec: 0, nsec: 0 },
+    frame_locked: false,
+    points,
+    colors: [],
+    text: "",
+    mesh_resource: "",
+    mesh_use_embedded_materials: false,
+  };
+}
+
+// A marker for `RenderableArrow` that draws an arrow of the given length
+// along the +x axis of its parent
+export function arrowMarker(id: number, color: ColorRGBA, length: number): Marker {
+  const diameter = length * ARROW_DIAMETER_RATIO;
+  return syntheticMarker(MarkerType.ARROW, id, { x: length, y: diameter, z: diameter }, color);
+}
@@ -13,6 +13,17 @@ export enum MarkerType {
   TRIANGLE_LIST = 11,
 }
 
+export enum PointFieldType {
+  INT8 = 1,
+  UINT8 = 2,
+  INT16 = 3,
+  UINT16 = 4,
+  INT32 = 5,
+  UINT32 = 6,
+  FLOAT32 = 7,
+  FLOAT64 = 8,
+}
+
 export enum MarkerAction {
   ADD = 0,
   MODIFY = 0,
@@ -85,6 +96,146 @@ export type Marker = {
   mesh_use_embedded_materials: boolean;
 };
 
+export type PointField = {
+  name: string;
+  offset: number;
+  datatype: PointFieldType;
+  count: number;
+};
+
+export type PointCloud2 = {
+  header: Header;
+  height: number;
+  width: number;
+  fields: PointField[];
+  is_bigendian: boolean;
+  point_step: number;
+  row_step: number;
+  data: Uint8Array;
+  is_dense: boolean;
+};
+
+export type LaserScan = {
+  header: Header;
+  angle_min: number;
+  angle_max: number;
+  angle_increment: number;
+  time_increment: number;
+  scan_time: number;
+  range_min: number;
+  range_max: number;
+  ranges: Float32Array | number[];
+  intensities: Float32Array | number[];
+};
+
+export type OccupancyGrid = {
+  header: Header;
+  info: {
+    map_load_time: RosTime;
+    resolution: number;
+    width: number;
+    height: number;
+    origin: Pose;
+  };
+  data: Int8Array | number[];
+};
+
+export type OccupancyGridUpdate = {
+  header: Header;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  data: Int8Array | number[];
+};
+
+export type PoseStamped = {
+  header: Header;
+  pose: Pose;
+};
+
+export type PoseArray = {
+  header: Header;
+  poses: Pose[];
+};
+
+export type PoseWithCovariance = {
+  pose: Pose;
+  /** Row-major 6x6 covariance of (x, y, z, roll, pitch, yaw) */
+  covariance: Float64Array | number[];
+};
+
+export type PoseWithCovarianceStamped = {
+  header: Header;
+  pose: PoseWithCovariance;
+};
+
+export type Path = {
+  header: Header;
+  poses: PoseStamped[];
+};
+
+export type Twist = {
+  linear: Vector3;
+  angular: Vector3;
+};
+
+export type Odometry = {
+  header: Header;
+  child_frame_id: string;
+  pose: PoseWithCovariance;
+  /** Velocity in the child frame */
+  twist: {
+    twist: Twist;
+    covariance: Float64Array | number[];
+  };
+};
+
+export type JointState = {
+  header: Header;
+  name: string[];
+  position: Float64Array | number[];
+  velocity: Float64Array | number[];
+  effort: Float64Array | number[];
+};
+
+export type CameraInfo = {
+  header: Header;
+  height: number;
+  width: number;
+  distortion_model: string;
+  D: number[];
+  /** Row-major 3x3 intrinsic matrix of the raw (distorted) image */
+  K: number[];
+  R: number[];
+  /** Row-major 3x4 projection matrix of the rectified image */
+  P: number[];
+  binning_x: number;
+  binning_y: number;
+};
+
+export type Image = {
+  header: Header;
+  height: number;
+  width: number;
+  encoding: string;
+  is_bigendian: number;
+  /** Row length in bytes */
+  step: number;
+  data: Uint8Array | number[];
+};
+
+export type CompressedImage = {
+  header: Header;
+  /** Image format such as "jpeg" or "png" */
+  format: string;
+  data: Uint8Array | number[];
+};
+
+export type StdString = {
+  data: string;
+};
+
 export const TRANSFORM_STAMPED_DATATYPES = new Set<string>();
 addRosDataType(TRANSFORM_STAMPED_DATATYPES, "geometry_msgs/TransformStamped");
 
@@ -98,6 +249,55 @@ addRosDataType(MARKER_DATATYPES, "visualization_msgs/Marker");
 export const MARKER_ARRAY_DATATYPES = new Set<string>();
 addRosDataType(MARKER_ARRAY_DATATYPES, "visualization_msgs/MarkerArray");
 
+export const POINTCLOUD_DATATYPES = new Set<string>();
+addRosDataType(POINTCLOUD_DATATYPES, "sensor_msgs/PointCloud2");
+
+export const LASERSCAN_DATATYPES = new Set<string>();
+addRosDataType(LASERSCAN_DATATYPES, "sensor_msgs/LaserScan");
+
+export const OCCUPANCY_GRID_DATATYPES = new Set<string>();
+addRosDataType(OCCUPANCY_GRID_DATATYPES, "nav_msgs/OccupancyGrid");
+
+export const OCCUPANCY_GRID_UPDATE_DATATYPES = new Set<string>();
+addRosDataType(OCCUPANCY_GRID_UPDATE_DATATYPES, "map_msgs/OccupancyGridUpdate");
+
+export const POSE_STAMPED_DATATYPES = new Set<string>();
+addRosDataType(POSE_STAMPED_DATATYPES, "geometry_msgs/PoseStamped");
+
+export const POSE_ARRAY_DATATYPES = new Set<string>();
+addRosDataType(POSE_ARRAY_DATATYPES, "geometry_msgs/PoseArray");
+
+export const POSE_WITH_COVARIANCE_STAMPED_DATATYPES = new Set<string>();
+addRosDataType(POSE_WITH_COVARIANCE_STAMPED_DATATYPES, "geometry_msgs/PoseWithCovarianceStamped");
+
+export const PATH_DATATYPES = new Set<string>();
+addRosDataType(PATH_DATATYPES, "nav_msgs/Path");
+
+export const ODOMETRY_DATATYPES = new Set<string>();
+addRosDataType(ODOMETRY_DATATYPES, "nav_msgs/Odometry");
+
+// A robot description (URDF) published as a string, usually on a latched
+// /robot_description topic
+export const ROBOT_DESCRIPTION_DATATYPES = new Set<string>();
+addRosDataType(ROBOT_DESCRIPTION_DATATYPES, "std_msgs/String");
+
+export const CAMERA_INFO_DATATYPES = new Set<string>();
+addRosDataType(CAMERA_INFO_DATATYPES, "sensor_msgs/CameraInfo");
+
+export const IMAGE_DATATYPES = new Set<string>();
+addRosDataType(IMAGE_DATATYPES, "sensor_msgs/Image");
+
+export const COMPRESSED_IMAGE_DATATYPES = new Set<string>();
+addRosDataType(COMPRESSED_IMAGE_DATATYPES, "sensor_msgs/CompressedImage");
+
+export const JOINT_STATE_DATATYPES = new Set<string>();
+addRosDataType(JOINT_STATE_DATATYPES, "sensor_msgs/JointState");
+
+/** Returns true for Image and CompressedImage datatypes */
+export function isImageDatatype(datatype: string): boolean {
+  return IMAGE_DATATYPES.has(datatype) || COMPRESSED_IMAGE_DATATYPES.has(datatype);
+}
+
 export function rosTimeToNanoSec(rosTime: { sec: number; nsec: number }): bigint {
   return BigInt(rosTime.sec) * BigInt(1e9) + BigInt(rosTime.nsec);
 }
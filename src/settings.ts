@@ -0,0 +1,117 @@
+import { Vec3Tuple } from "./config";
+
+/**
+ * A declarative description of the settings sidebar. Parts of the renderer
+ * (the renderer itself, `FrameAxes`, `Markers`, ...) each contribute nodes
+ * at a path in the tree, and the sidebar renders the merged result. User
+ * edits are sent back as `SettingsTreeAction`s to whoever contributed the
+ * edited node.
+ */
+
+export type SettingsTreeField =
+  | { input: "boolean"; label: string; value: boolean | undefined; help?: string }
+  | {
+      input: "number";
+      label: string;
+      value: number | undefined;
+      min?: number;
+      max?: number;
+      step?: number;
+      placeholder?: string;
+      help?: string;
+    }
+  | { input: "string"; label: string; value: string | undefined; help?: string }
+  | {
+      input: "color";
+      label: string;
+      /** "#rrggbb" hex string, or undefined if no color is set */
+      value: string | undefined;
+      help?: string;
+    }
+  | {
+      input: "select";
+      label: string;
+      value: string | undefined;
+      options: ReadonlyArray<{ label: string; value: string | undefined }>;
+      help?: string;
+    }
+  | { input: "vec3"; label: string; value: Vec3Tuple | undefined; step?: number; help?: string };
+
+export type SettingsTreeFieldValue = SettingsTreeField["value"];
+
+export type SettingsTreeNode = {
+  label?: string;
+  /** If defined, a visibility checkbox is shown next to the node label */
+  visible?: boolean;
+  defaultExpansionState?: "expanded" | "collapsed";
+  /** Error message displayed with this node */
+  error?: string;
+  fields?: Record<string, SettingsTreeField | undefined>;
+  children?: Record<string, SettingsTreeNode | undefined>;
+};
+
+/** A node contributed at `path`, such as `["topics", "/markers"]` */
+export type SettingsTreeEntry = {
+  path: ReadonlyArray<string>;
+  node: SettingsTreeNode;
+};
+
+/**
+ * A user edit. `path` is the path of the edited node followed by the key of
+ * the edited field, or `"visible"` for the node visibility checkbox.
+ */
+export type SettingsTreeAction = {
+  action: "update";
+  path: ReadonlyArray<string>;
+  value: SettingsTreeFieldValue;
+};
+
+export interface SettingsTreeContributor {
+  settingsNodes(): SettingsTreeEntry[];
+  handleSettingsAction(action: SettingsTreeAction): void;
+}
+
+/**
+ * Merge a list of contributed nodes into a single tree. Nodes contributed at
+ * the same path have their fields and children merged, with later entries
+ * taking precedence for node properties such as `label`.
+ */
+export function buildSettingsTree(entries: ReadonlyArray<SettingsTreeEntry>): SettingsTreeNode {
+  const root: SettingsTreeNode = {};
+  for (const entry of entries) {
+    let node = root;
+    for (const key of entry.path) {
+      node.children ??= {};
+      node = node.children[key] ??= {};
+    }
+    mergeNode(node, entry.node);
+  }
+  return root;
+}
+
+/** Returns true if `path` begins with all of the keys in `prefix` */
+export function pathStartsWith(
+  path: ReadonlyArray<string>,
+  prefix: ReadonlyArray<string>,
+): boolean {
+  if (prefix.length > path.length) {
+    return false;
+  }
+  return prefix.every((key, i) => path[i] === key);
+}
+
+function mergeNode(target: SettingsTreeNode, source: SettingsTreeNode): void {
+  const { fields, children, ...rest } = source;
+  Object.assign(target, rest);
+  if (fields) {
+    target.fields = { ...target.fields, ...fields };
+  }
+  if (children) {
+    target.children ??= {};
+    for (const [key, child] of Object.entries(children)) {
+      if (child) {
+        mergeNode((target.children[key] ??= {}), child);
+      }
+    }
+  }
+}
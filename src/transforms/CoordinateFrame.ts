@@ -1,18 +1,20 @@
 /* eslint-disable no-underscore-dangle */
 /* eslint-disable @foxglove/no-boolean-parameters */
 
-import { mat4 } from "gl-matrix";
-
 import { AVLTree } from "@foxglove/avl";
+import { mat4 } from "gl-matrix";
 
 import { Transform } from "./Transform";
+import { LookupFailureReason, TransformLookupFailure } from "./TransformLookupFailure";
 import { Pose, mat4Identity } from "./geometry";
 import { compareTime, Duration, interpolate, percentOf, Time } from "./time";
 
 type TimeAndTransform = [time: Time, transform: Transform];
 
 const INFINITE_DURATION: Duration = 4_294_967_295n * BigInt(1e9);
-const DEFAULT_MAX_STORAGE_TIME: Duration = 10n * BigInt(1e9);
+export const DEFAULT_MAX_STORAGE_TIME: Duration = 10n * BigInt(1e9);
+// Enough for 10 seconds of a 1kHz transform
+export const DEFAULT_MAX_SAMPLES = 10_000;
 
 const tempLower: TimeAndTransform = [0n, Transform.Identity()];
 const tempUpper: TimeAndTransform = [0n, Transform.Identity()];
@@ -29,17 +31,23 @@ const tempMatrix = mat4Identity();
 export class CoordinateFrame {
   readonly id: string;
   maxStorageTime: Duration;
+  maxSamples: number;
 
   private _parent?: CoordinateFrame;
   private _transforms: AVLTree<Time, Transform>;
+  // A static transform is valid at all times and replaces the history
+  private _staticTransform?: Transform;
+  private _staticTime?: Time;
 
   constructor(
     id: string,
     parent: CoordinateFrame | undefined,
     maxStorageTime: Duration = DEFAULT_MAX_STORAGE_TIME,
+    maxSamples: number = DEFAULT_MAX_SAMPLES,
   ) {
     this.id = id;
     this.maxStorageTime = maxStorageTime;
+    this.maxSamples = maxSamples;
     this._parent = parent;
     this._transforms = new AVLTree<Time, Transform>(compareTime);
   }
@@ -61,6 +69,29 @@ export class CoordinateFrame {
     return root;
   }
 
+  /**
+   * Returns the timestamp of the newest transform in the history, or of the
+   * static transform, if any
+   */
+  newestTime(): Time | undefined {
+    return this._staticTime ?? this._transforms.maxKey();
+  }
+
+  /** Returns the timestamp of the oldest transform in the history, if any */
+  oldestTime(): Time | undefined {
+    return this._staticTime ?? this._transforms.minKey();
+  }
+
+  /** Returns the number of transforms kept for this frame */
+  transformCount(): number {
+    return this._staticTransform ? 1 : this._transforms.size;
+  }
+
+  /** Returns true if the transform to the parent frame is static */
+  isStatic(): boolean {
+    return this._staticTransform != undefined;
+  }
+
   /**
    * Set the parent frame for this frame. If the parent frame is already set to
    * a different frame, the transform history is cleared.
@@ -68,6 +99,8 @@ export class CoordinateFrame {
   setParent(parent: CoordinateFrame): void {
     if (this._parent && this._parent !== parent) {
       this._transforms.clear();
+      this._staticTransform = undefined;
+      this._staticTime = undefined;
     }
     this._parent = parent;
   }
@@ -89,22 +122,41 @@ export class CoordinateFrame {
     return undefined;
   }
 
+  /**
+   * Change the storage limits of the transform history, purging transforms
+   * that no longer fit.
+   */
+  setStorageLimits(maxStorageTime: Duration, maxSamples: number): void {
+    this.maxStorageTime = maxStorageTime;
+    this.maxSamples = maxSamples;
+    this._purge();
+  }
+
   /**
    * Add a transform to the transform history maintained by this frame. The
    * difference between the newest and oldest timestamps cannot be more than
-   * `this.maxStorageTime`, so this addition may purge older transforms.
+   * `this.maxStorageTime` and at most `this.maxSamples` transforms are kept,
+   * so this addition may purge older transforms.
    *
    * If a transform with an identical timestamp already exists, it is replaced.
+   *
+   * A static transform, such as one published on `/tf_static`, is valid at any
+   * time and is never purged. It replaces the transform history, and is itself
+   * replaced by the next static transform regardless of timestamps. A dynamic
+   * transform for this frame clears the static transform.
    */
-  addTransform(time: Time, transform: Transform): void {
-    this._transforms.set(time, transform);
-
-    // Remove transforms that are too old
-    const endTime = this._transforms.maxKey()!;
-    const startTime = endTime - this.maxStorageTime;
-    while (this._transforms.size > 1 && this._transforms.minKey()! < startTime) {
-      this._transforms.shift();
+  addTransform(time: Time, transform: Transform, isStatic = false): void {
+    if (isStatic) {
+      this._transforms.clear();
+      this._staticTransform = transform;
+      this._staticTime = time;
+      return;
     }
+    this._staticTransform = undefined;
+    this._staticTime = undefined;
+
+    this._transforms.set(time, transform);
+    this._purge();
   }
 
   /**
@@ -128,6 +180,12 @@ export class CoordinateFrame {
     maxDelta: Duration,
   ): boolean {
     // perf-sensitive: function params instead of options object to avoid allocations
+    if (this._staticTransform) {
+      outLower[0] = outUpper[0] = time;
+      outLower[1] = outUpper[1] = this._staticTransform;
+      return true;
+    }
+
     if (this._transforms.size === 0) {
       return false;
     }
@@ -200,7 +258,8 @@ export class CoordinateFrame {
    * @param maxDelta The time parameter can exceed the bounds of the transform
    *   history by up to this amount and still clamp to the oldest or newest
    *   transform
-   * @returns A reference to `out` on success, otherwise undefined
+   * @returns A reference to `out` on success, otherwise the reason for the
+   *   failure
    */
   applyLocal(
     out: Pose,
@@ -208,7 +267,7 @@ export class CoordinateFrame {
     srcFrame: CoordinateFrame,
     time: Time,
     maxDelta: Duration = INFINITE_DURATION,
-  ): Pose | undefined {
+  ): Pose | TransformLookupFailure {
     // perf-sensitive: function params instead of options object to avoid allocations
     if (srcFrame === this) {
       // Identity transform
@@ -216,14 +275,10 @@ export class CoordinateFrame {
       return out;
     } else if (srcFrame.findAncestor(this.id)) {
       // This frame is an ancestor of the source frame
-      return CoordinateFrame.Apply(out, input, this, srcFrame, false, time, maxDelta)
-        ? out
-        : undefined;
+      return CoordinateFrame.Apply(out, input, this, srcFrame, false, time, maxDelta) ?? out;
     } else if (this.findAncestor(srcFrame.id)) {
       // This frame is a descendant of the source frame
-      return CoordinateFrame.Apply(out, input, srcFrame, this, true, time, maxDelta)
-        ? out
-        : undefined;
+      return CoordinateFrame.Apply(out, input, srcFrame, this, true, time, maxDelta) ?? out;
     }
 
     // Check if the two frames share a common ancestor
@@ -233,17 +288,24 @@ export class CoordinateFrame {
       if (commonAncestor) {
         // Common ancestor found. Apply transforms from the source frame to the common ancestor,
         // then apply transforms from the common ancestor to this frame
-        if (!CoordinateFrame.Apply(out, input, commonAncestor, srcFrame, false, time, maxDelta)) {
-          return undefined;
+        const failure = CoordinateFrame.Apply(
+          out,
+          input,
+          commonAncestor,
+          srcFrame,
+          false,
+          time,
+          maxDelta,
+        );
+        if (failure) {
+          return failure;
         }
-        return CoordinateFrame.Apply(out, out, commonAncestor, this, true, time, maxDelta)
-          ? out
-          : undefined;
+        return CoordinateFrame.Apply(out, out, commonAncestor, this, true, time, maxDelta) ?? out;
       }
       curSrcFrame = curSrcFrame._parent;
     }
 
-    return undefined;
+    return new TransformLookupFailure(LookupFailureReason.NoCommonAncestor, srcFrame.id, this.id);
   }
 
   /**
@@ -263,7 +325,8 @@ export class CoordinateFrame {
    * @param maxDelta The time parameter can exceed the bounds of the transform
    *   history by up to this amount and still clamp to the oldest or newest
    *   transform
-   * @returns A reference to `out` on success, otherwise undefined
+   * @returns A reference to `out` on success, otherwise the reason for the
+   *   failure
    */
   apply(
     out: Pose,
@@ -273,17 +336,60 @@ export class CoordinateFrame {
     dstTime: Time,
     srcTime: Time,
     maxDelta: Duration = INFINITE_DURATION,
-  ): Pose | undefined {
+  ): Pose | TransformLookupFailure {
     // perf-sensitive: function params instead of options object to avoid allocations
 
     // Transform from the source frame to the root frame
-    if (rootFrame.applyLocal(out, input, srcFrame, srcTime, maxDelta) == undefined) {
-      return undefined;
+    const result = rootFrame.applyLocal(out, input, srcFrame, srcTime, maxDelta);
+    if (result instanceof TransformLookupFailure) {
+      return result;
     }
     // Transform from the root frame to this frame
     return this.applyLocal(out, out, rootFrame, dstTime, maxDelta);
   }
 
+  // Explain why findClosestTransforms() failed for the given time. Only called
+  // on the failure path, so the search itself stays allocation free
+  private _lookupFailure(time: Time): TransformLookupFailure {
+    const parentId = this._parent?.id;
+    const oldestTime = this._transforms.minKey();
+    const newestTime = this._transforms.maxKey();
+    if (oldestTime == undefined || newestTime == undefined) {
+      return new TransformLookupFailure(LookupFailureReason.EmptyHistory, this.id, parentId);
+    }
+    if (time < oldestTime) {
+      return new TransformLookupFailure(
+        LookupFailureReason.ExtrapolationPast,
+        this.id,
+        parentId,
+        oldestTime - time,
+      );
+    }
+    return new TransformLookupFailure(
+      LookupFailureReason.ExtrapolationFuture,
+      this.id,
+      parentId,
+      time - newestTime,
+    );
+  }
+
+  // Remove transforms that are too old, then the oldest transforms beyond the
+  // sample limit. The newest transform is always kept
+  private _purge(): void {
+    if (this._transforms.size === 0) {
+      return;
+    }
+    const endTime = this._transforms.maxKey()!;
+    const startTime = endTime - this.maxStorageTime;
+    const maxSamples = Math.max(1, this.maxSamples);
+    while (
+      this._transforms.size > 1 &&
+      (this._transforms.minKey()! < startTime || this._transforms.size > maxSamples)
+    ) {
+      this._transforms.shift();
+    }
+  }
+
   /**
    * Interpolate between two [time, transform] pairs.
    * @param outTime Optional output parameter for the interpolated time
@@ -325,7 +431,7 @@ export class CoordinateFrame {
    * @param maxDelta The time parameter can exceed the bounds of the transform
    *   history by up to this amount and still clamp to the oldest or newest
    *   transform
-   * @returns True on success
+   * @returns Undefined on success, otherwise the reason for the failure
    */
   static GetTransformMatrix(
     out: mat4,
@@ -333,14 +439,14 @@ export class CoordinateFrame {
     childFrame: CoordinateFrame,
     time: Time,
     maxDelta: Duration,
-  ): boolean {
+  ): TransformLookupFailure | undefined {
     // perf-sensitive: function params instead of options object to avoid allocations
     mat4.identity(out);
 
     let curFrame = childFrame;
     while (curFrame !== parentFrame) {
       if (!curFrame.findClosestTransforms(tempLower, tempUpper, time, maxDelta)) {
-        return false;
+        return curFrame._lookupFailure(time);
       }
       CoordinateFrame.Interpolate(tempTimeAndTransform, tempLower, tempUpper, time);
       mat4.multiply(out, tempTimeAndTransform[1].matrix(), out);
@@ -351,7 +457,7 @@ export class CoordinateFrame {
       curFrame = curFrame._parent;
     }
 
-    return true;
+    return undefined;
   }
 
   /**
@@ -368,7 +474,7 @@ export class CoordinateFrame {
    * @param maxDelta The time parameter can exceed the bounds of the transform
    *   history by up to this amount and still clamp to the oldest or newest
    *   transform
-   * @returns True on success
+   * @returns Undefined on success, otherwise the reason for the failure
    */
   static Apply(
     out: Pose,
@@ -378,10 +484,11 @@ export class CoordinateFrame {
     invert: boolean,
     time: Time,
     maxDelta: Duration,
-  ): boolean {
+  ): TransformLookupFailure | undefined {
     // perf-sensitive: function params instead of options object to avoid allocations
-    if (!CoordinateFrame.GetTransformMatrix(tempMatrix, parent, child, time, maxDelta)) {
-      return false;
+    const failure = CoordinateFrame.GetTransformMatrix(tempMatrix, parent, child, time, maxDelta);
+    if (failure) {
+      return failure;
     }
     if (invert) {
       mat4.invert(tempMatrix, tempMatrix);
@@ -389,7 +496,7 @@ export class CoordinateFrame {
 
     mat4.multiply(tempMatrix, tempMatrix, tempTransform.setPose(input).matrix());
     tempTransform.setMatrix(tempMatrix).toPose(out);
-    return true;
+    return undefined;
   }
 }
 
@@ -0,0 +1,58 @@
+import { Duration } from "./time";
+
+export enum LookupFailureReason {
+  /** A frame does not exist in the transform tree */
+  UnknownFrame,
+  /** The source and destination frames are in disconnected trees */
+  NoCommonAncestor,
+  /** A frame has a parent but no transforms to it */
+  EmptyHistory,
+  /** The lookup time is before the oldest transform of a frame */
+  ExtrapolationPast,
+  /** The lookup time is after the newest transform of a frame by more than the allowed delta */
+  ExtrapolationFuture,
+}
+
+/**
+ * The reason a transform lookup failed. `frameId` is the frame the failure
+ * occurred at and `otherFrameId` is the other end of the failed lookup, or
+ * the parent frame for history failures. `delta` is how far the lookup time
+ * was outside of the transform history for extrapolation failures. It is left
+ * out of `message`, which is reported as a topic error on every frame and must
+ * stay the same while the failure persists.
+ */
+export class TransformLookupFailure {
+  readonly reason: LookupFailureReason;
+  readonly frameId: string;
+  readonly otherFrameId: string | undefined;
+  readonly delta: Duration | undefined;
+
+  constructor(
+    reason: LookupFailureReason,
+    frameId: string,
+    otherFrameId?: string,
+    delta?: Duration,
+  ) {
+    this.reason = reason;
+    this.frameId = frameId;
+    this.otherFrameId = otherFrameId;
+    this.delta = delta;
+  }
+
+  get message(): string {
+    const frameId = this.frameId;
+    const otherFrameId = this.otherFrameId ?? "";
+    switch (this.reason) {
+      case LookupFailureReason.UnknownFrame:
+        return `Frame "${frameId}" does not exist`;
+      case LookupFailureReason.NoCommonAncestor:
+        return `No transform from "${frameId}" to "${otherFrameId}", the frames are not connected`;
+      case LookupFailureReason.EmptyHistory:
+        return `No transforms from "${frameId}" to "${otherFrameId}"`;
+      case LookupFailureReason.ExtrapolationPast:
+        return `Transform from "${frameId}" to "${otherFrameId}" requested before the oldest transform`;
+      case LookupFailureReason.ExtrapolationFuture:
+        return `Transform from "${frameId}" to "${otherFrameId}" requested after the newest transform`;
+    }
+  }
+}
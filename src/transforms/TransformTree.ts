@@ -1,7 +1,27 @@
-import { Duration, Time } from "./time";
-import { Pose } from "./geometry";
-import { CoordinateFrame } from "./CoordinateFrame";
+import { CoordinateFrame, DEFAULT_MAX_SAMPLES, DEFAULT_MAX_STORAGE_TIME } from "./CoordinateFrame";
 import { Transform } from "./Transform";
+import { LookupFailureReason, TransformLookupFailure } from "./TransformLookupFailure";
+import { Pose } from "./geometry";
+import { Duration, Time } from "./time";
+
+/** The outcome of `TransformTree.addTransform` */
+export enum AddTransformResult {
+  /** The transform was added */
+  Added,
+  /**
+   * The transform was added, but replaced the parent of a frame that still
+   * had recent transforms from its previous parent
+   */
+  CompetingParent,
+  /** The transform was rejected because it would create a cycle */
+  Cycle,
+}
+
+/** Limits on the transform history kept by each coordinate frame */
+export type StorageLimits = {
+  maxStorageTime: Duration;
+  maxSamples: number;
+};
 
 /**
  * TransformTree is a collection of coordinate frames with convenience methods
@@ -9,17 +29,51 @@ import { Transform } from "./Transform";
  */
 export class TransformTree {
   private _frames = new Map<string, CoordinateFrame>();
+  private _storageLimits: StorageLimits = {
+    maxStorageTime: DEFAULT_MAX_STORAGE_TIME,
+    maxSamples: DEFAULT_MAX_SAMPLES,
+  };
+  private _frameStorageLimits: ReadonlyMap<string, Partial<StorageLimits>> = new Map();
 
-  addTransform(frameId: string, parentFrameId: string, time: Time, transform: Transform): void {
+  /**
+   * The latest failed lookup at each frame, keyed by the id of the frame the
+   * failure occurred at. The renderer clears this at the start of each frame
+   */
+  readonly lookupFailures = new Map<string, TransformLookupFailure>();
+
+  /**
+   * Add a transform from `frameId` to `parentFrameId`. Static transforms are
+   * valid at any time and are kept regardless of the frame storage time.
+   *
+   * A transform that would make a frame its own ancestor is rejected, since
+   * walking up a cycle of parents never terminates. Reparenting a frame clears
+   * its transform history.
+   */
+  addTransform(
+    frameId: string,
+    parentFrameId: string,
+    time: Time,
+    transform: Transform,
+    isStatic = false,
+  ): AddTransformResult {
     const frame = this.getOrCreateFrame(frameId);
     const curParentFrame = frame.parent();
+    let result = AddTransformResult.Added;
     if (curParentFrame == undefined || curParentFrame.id !== parentFrameId) {
       // This frame was previously unparented but now we know its parent, or we
       // are reparenting this frame
-      frame.setParent(this.getOrCreateFrame(parentFrameId));
+      const parentFrame = this.getOrCreateFrame(parentFrameId);
+      if (parentFrame === frame || parentFrame.findAncestor(frameId)) {
+        return AddTransformResult.Cycle;
+      }
+      if (curParentFrame && hasRecentTransforms(frame, time, isStatic)) {
+        result = AddTransformResult.CompetingParent;
+      }
+      frame.setParent(parentFrame);
     }
 
-    frame.addTransform(time, transform);
+    frame.addTransform(time, transform, isStatic);
+    return result;
   }
 
   hasFrame(id: string): boolean {
@@ -30,10 +84,37 @@ export class TransformTree {
     return this._frames.get(id);
   }
 
+  /**
+   * Set the transform history limits of existing and future frames, purging
+   * transforms that no longer fit. Entries in `frameLimits` override `limits`
+   * for individual frame ids.
+   */
+  setStorageLimits(
+    limits: StorageLimits,
+    frameLimits: ReadonlyMap<string, Partial<StorageLimits>> = new Map(),
+  ): void {
+    this._storageLimits = limits;
+    this._frameStorageLimits = frameLimits;
+    for (const frame of this._frames.values()) {
+      const { maxStorageTime, maxSamples } = this.storageLimits(frame.id);
+      frame.setStorageLimits(maxStorageTime, maxSamples);
+    }
+  }
+
+  /** Returns the transform history limits that apply to the given frame id */
+  storageLimits(id: string): StorageLimits {
+    const override = this._frameStorageLimits.get(id);
+    return {
+      maxStorageTime: override?.maxStorageTime ?? this._storageLimits.maxStorageTime,
+      maxSamples: override?.maxSamples ?? this._storageLimits.maxSamples,
+    };
+  }
+
   getOrCreateFrame(id: string): CoordinateFrame {
     let frame = this._frames.get(id);
     if (!frame) {
-      frame = new CoordinateFrame(id, undefined);
+      const { maxStorageTime, maxSamples } = this.storageLimits(id);
+      frame = new CoordinateFrame(id, undefined, maxStorageTime, maxSamples);
       this._frames.set(id, frame);
     }
     return frame;
@@ -43,6 +124,35 @@ export class TransformTree {
     return this._frames;
   }
 
+  /**
+   * Returns the root frame of the largest connected tree of frames, or
+   * undefined if the tree is empty. Ties are broken by frame insertion order.
+   * This is a reasonable default for the render frame when the user has not
+   * chosen one.
+   */
+  defaultRootFrame(): CoordinateFrame | undefined {
+    const treeSizes = new Map<CoordinateFrame, number>();
+    for (const frame of this._frames.values()) {
+      const root = frame.root();
+      treeSizes.set(root, (treeSizes.get(root) ?? 0) + 1);
+    }
+
+    let largestRoot: CoordinateFrame | undefined;
+    let largestSize = 0;
+    for (const [root, size] of treeSizes) {
+      if (size > largestSize) {
+        largestRoot = root;
+        largestSize = size;
+      }
+    }
+    return largestRoot;
+  }
+
+  /**
+   * Transform `input` from `srcFrameId` at `srcTime` into `frameId` at
+   * `dstTime`, via `rootFrameId`. Returns `output` on success, otherwise the
+   * reason the lookup failed.
+   */
   apply(
     output: Pose,
     input: Readonly<Pose>,
@@ -52,21 +162,48 @@ export class TransformTree {
     dstTime: Time,
     srcTime: Time,
     maxDelta?: Duration,
-  ): Pose | undefined {
+  ): Pose | TransformLookupFailure {
     const frame = this.frame(frameId);
+    if (!frame) {
+      return new TransformLookupFailure(LookupFailureReason.UnknownFrame, frameId);
+    }
     const srcFrame = this.frame(srcFrameId);
-    if (!frame || !srcFrame) {
-      return undefined;
+    if (!srcFrame) {
+      return new TransformLookupFailure(LookupFailureReason.UnknownFrame, srcFrameId);
     }
     const rootFrame =
       (rootFrameId != undefined ? this.frame(rootFrameId) : frame.root()) ?? frame.root();
-    return frame.apply(output, input, rootFrame, srcFrame, dstTime, srcTime, maxDelta);
+    const result = frame.apply(output, input, rootFrame, srcFrame, dstTime, srcTime, maxDelta);
+    if (result instanceof TransformLookupFailure) {
+      this.lookupFailures.set(result.frameId, result);
+    }
+    return result;
   }
 
   static Clone(tree: TransformTree): TransformTree {
     const newTree = new TransformTree();
     // eslint-disable-next-line no-underscore-dangle
     newTree._frames = tree._frames;
+    // eslint-disable-next-line no-underscore-dangle
+    newTree._storageLimits = tree._storageLimits;
+    // eslint-disable-next-line no-underscore-dangle
+    newTree._frameStorageLimits = tree._frameStorageLimits;
     return newTree;
   }
 }
+
+// True if the transform history of `frame` is still in use at `time`, which
+// means another publisher is sending transforms for it with a different parent.
+// A static transform replaced by another static transform is an update, not a
+// competing parent
+function hasRecentTransforms(frame: CoordinateFrame, time: Time, isStatic: boolean): boolean {
+  if (frame.isStatic()) {
+    return !isStatic;
+  }
+  const newestTime = frame.newestTime();
+  if (newestTime == undefined) {
+    return false;
+  }
+  const delta = time > newestTime ? time - newestTime : newestTime - time;
+  return delta <= frame.maxStorageTime;
+}
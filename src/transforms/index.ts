@@ -1,4 +1,5 @@
 export * from "./CoordinateFrame";
 export * from "./geometry";
 export * from "./Transform";
+export * from "./TransformLookupFailure";
 export * from "./TransformTree";
@@ -1,7 +1,21 @@
-import { makePose, Pose, TransformTree } from "./transforms";
+import { TopicErrors } from "./TopicErrors";
+import { makePose, Pose, TransformLookupFailure, TransformTree } from "./transforms";
+import { Duration } from "./transforms/time";
+
+export const TRANSFORM_ERROR = "TRANSFORM_ERROR";
+
+// How far a lookup may run past the newest transform of a frame, since
+// transforms often arrive slightly after the data that uses them. Later
+// lookups fail as extrapolation into the future
+const MAX_EXTRAPOLATION: Duration = 5n * BigInt(1e9);
 
 const tempPose = makePose();
 
+/**
+ * Place `renderable` in the render frame using the pose in its
+ * `userData.pose`. The renderable is hidden if the transform lookup fails.
+ * @returns Undefined on success, otherwise the reason the lookup failed
+ */
 export function updatePose(
   renderable: THREE.Object3D,
   transformTree: TransformTree,
@@ -10,18 +24,45 @@ export function updatePose(
   srcFrameId: string,
   dstTime: bigint,
   srcTime: bigint,
-): void {
+): TransformLookupFailure | undefined {
   const pose = renderable.userData.pose as Pose | undefined;
   if (!pose) throw new Error(`Missing userData.pose for ${renderable.name}`);
-  const poseApplied = Boolean(
-    transformTree.apply(tempPose, pose, renderFrameId, fixedFrameId, srcFrameId, dstTime, srcTime),
+  const result = transformTree.apply(
+    tempPose,
+    pose,
+    renderFrameId,
+    fixedFrameId,
+    srcFrameId,
+    dstTime,
+    srcTime,
+    MAX_EXTRAPOLATION,
   );
-  renderable.visible = poseApplied;
-  if (poseApplied) {
-    const p = tempPose.position;
-    const q = tempPose.orientation;
-    renderable.position.set(p.x, p.y, p.z);
-    renderable.quaternion.set(q.x, q.y, q.z, q.w);
-    renderable.updateMatrix();
+  if (result instanceof TransformLookupFailure) {
+    renderable.visible = false;
+    return result;
+  }
+  renderable.visible = true;
+  const p = result.position;
+  const q = result.orientation;
+  renderable.position.set(p.x, p.y, p.z);
+  renderable.quaternion.set(q.x, q.y, q.z, q.w);
+  renderable.updateMatrix();
+  return undefined;
+}
+
+/**
+ * Add the transform lookup failure from `updatePose` to `topic`, or clear it
+ * once the lookup succeeds again.
+ */
+export function reportTransformFailure(
+  topicErrors: TopicErrors,
+  topic: string,
+  failure: TransformLookupFailure | undefined,
+  errorId = TRANSFORM_ERROR,
+): void {
+  if (failure) {
+    topicErrors.add(topic, errorId, failure.message);
+  } else if (topicErrors.hasErrors(topic)) {
+    topicErrors.remove(topic, errorId);
   }
 }
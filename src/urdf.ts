@@ -0,0 +1,309 @@
+import * as THREE from "three";
+
+import { ColorRGBA, Pose, Quaternion, Vector3 } from "./ros";
+
+// A subset of the Unified Robot Description Format (URDF) needed to draw a
+// robot: links with their visual geometry, and the joints connecting them.
+// Collision and inertial elements are ignored.
+// <http://wiki.ros.org/urdf/XML>
+
+export type UrdfGeometry =
+  | { type: "box"; size: Vector3 }
+  | { type: "cylinder"; radius: number; length: number }
+  | { type: "sphere"; radius: number }
+  | { type: "mesh"; filename: string; scale: Vector3 };
+
+export type UrdfVisual = {
+  /** Pose of the visual in its link frame */
+  origin: Pose;
+  geometry: UrdfGeometry;
+  /** Material color, or undefined to use the mesh or default color */
+  color: ColorRGBA | undefined;
+};
+
+export type UrdfLink = {
+  name: string;
+  visuals: UrdfVisual[];
+};
+
+export type UrdfJointType =
+  | "revolute"
+  | "continuous"
+  | "prismatic"
+  | "fixed"
+  | "floating"
+  | "planar";
+
+export type UrdfJoint = {
+  name: string;
+  type: UrdfJointType;
+  parent: string;
+  child: string;
+  /** Pose of the child link frame in the parent link frame at joint position zero */
+  origin: Pose;
+  /** Joint axis in the joint frame, normalized */
+  axis: Vector3;
+  limit: { lower: number; upper: number } | undefined;
+  /** This joint follows `joint` as `position = multiplier * position(joint) + offset` */
+  mimic: { joint: string; multiplier: number; offset: number } | undefined;
+};
+
+export type UrdfRobot = {
+  name: string;
+  links: Map<string, UrdfLink>;
+  joints: Map<string, UrdfJoint>;
+};
+
+const JOINT_TYPES = new Set<string>([
+  "revolute",
+  "continuous",
+  "prismatic",
+  "fixed",
+  "floating",
+  "planar",
+]);
+
+/** Parse a URDF XML document. Throws an Error if the document is malformed */
+export function parseUrdf(xml: string): UrdfRobot {
+  const doc = new DOMParser().parseFromString(xml, "application/xml");
+  const parserError = doc.querySelector("parsererror");
+  if (parserError) {
+    throw new Error(`Invalid URDF XML: ${parserError.textContent ?? ""}`);
+  }
+  const robot = doc.documentElement;
+  if (robot.nodeName !== "robot") {
+    throw new Error(`Invalid URDF: expected a <robot> root element, got <${robot.nodeName}>`);
+  }
+
+  // Materials can be declared at the top level and referenced by name
+  const materials = new Map<string, ColorRGBA>();
+  for (const material of childElements(robot, "material")) {
+    const name = material.getAttribute("name");
+    const color = parseMaterialColor(material);
+    if (name != undefined && color) {
+      materials.set(name, color);
+    }
+  }
+
+  const links = new Map<string, UrdfLink>();
+  for (const link of childElements(robot, "link")) {
+    const name = requiredAttribute(link, "name");
+    const visuals = childElements(link, "visual").map((visual) =>
+      parseVisual(visual, name, materials),
+    );
+    links.set(name, { name, visuals });
+  }
+
+  const joints = new Map<string, UrdfJoint>();
+  for (const joint of childElements(robot, "joint")) {
+    const parsed = parseJoint(joint);
+    joints.set(parsed.name, parsed);
+  }
+
+  return { name: robot.getAttribute("name") ?? "", links, joints };
+}
+
+const tempAxis = new THREE.Vector3();
+const tempOrigin = new THREE.Quaternion();
+const tempMotion = new THREE.Quaternion();
+
+/**
+ * Returns the pose of the child link frame of `joint` in its parent link
+ * frame for the given joint position, in radians for revolute and continuous
+ * joints or meters for prismatic joints. Returns undefined for floating and
+ * planar joints, which cannot be described by a single position.
+ */
+export function jointPose(joint: UrdfJoint, position: number): Pose | undefined {
+  const { position: p, orientation: q } = joint.origin;
+  tempOrigin.set(q.x, q.y, q.z, q.w);
+  tempAxis.set(joint.axis.x, joint.axis.y, joint.axis.z);
+
+  switch (joint.type) {
+    case "fixed":
+      return joint.origin;
+    case "revolute":
+    case "continuous": {
+      // Rotate about the axis, which is expressed in the joint (child) frame
+      tempMotion.setFromAxisAngle(tempAxis, position);
+      const { x, y, z, w } = tempOrigin.multiply(tempMotion);
+      return { position: { ...p }, orientation: { x, y, z, w } };
+    }
+    case "prismatic": {
+      tempAxis.multiplyScalar(position).applyQuaternion(tempOrigin);
+      return {
+        position: { x: p.x + tempAxis.x, y: p.y + tempAxis.y, z: p.z + tempAxis.z },
+        orientation: { ...q },
+      };
+    }
+    case "floating":
+    case "planar":
+      return undefined;
+  }
+}
+
+/** Convert fixed axis roll, pitch and yaw angles into a quaternion */
+export function quaternionFromRpy(roll: number, pitch: number, yaw: number): Quaternion {
+  const cr = Math.cos(roll / 2);
+  const sr = Math.sin(roll / 2);
+  const cp = Math.cos(pitch / 2);
+  const sp = Math.sin(pitch / 2);
+  const cy = Math.cos(yaw / 2);
+  const sy = Math.sin(yaw / 2);
+  return {
+    x: sr * cp * cy - cr * sp * sy,
+    y: cr * sp * cy + sr * cp * sy,
+    z: cr * cp * sy - sr * sp * cy,
+    w: cr * cp * cy + sr * sp * sy,
+  };
+}
+
+function parseVisual(
+  visual: Element,
+  linkName: string,
+  materials: Map<string, ColorRGBA>,
+): UrdfVisual {
+  const geometryElement = childElements(visual, "geometry")[0];
+  if (!geometryElement) {
+    throw new Error(`Invalid URDF: link "${linkName}" has a <visual> without <geometry>`);
+  }
+
+  let color: ColorRGBA | undefined;
+  const material = childElements(visual, "material")[0];
+  if (material) {
+    const name = material.getAttribute("name");
+    color = parseMaterialColor(material) ?? (name != undefined ? materials.get(name) : undefined);
+  }
+
+  return {
+    origin: parseOrigin(childElements(visual, "origin")[0]),
+    geometry: parseGeometry(geometryElement, linkName),
+    color,
+  };
+}
+
+function parseGeometry(geometry: Element, linkName: string): UrdfGeometry {
+  const shape = geometry.firstElementChild;
+  switch (shape?.nodeName) {
+    case "box": {
+      const [x, y, z] = parseNumbers(requiredAttribute(shape, "size"), 3);
+      return { type: "box", size: { x, y, z } };
+    }
+    case "cylinder":
+      return {
+        type: "cylinder",
+        radius: parseNumber(requiredAttribute(shape, "radius")),
+        length: parseNumber(requiredAttribute(shape, "length")),
+      };
+    case "sphere":
+      return { type: "sphere", radius: parseNumber(requiredAttribute(shape, "radius")) };
+    case "mesh": {
+      const scale = shape.getAttribute("scale");
+      const [x, y, z] = scale != undefined ? parseNumbers(scale, 3) : [1, 1, 1];
+      return { type: "mesh", filename: requiredAttribute(shape, "filename"), scale: { x, y, z } };
+    }
+    default:
+      throw new Error(
+        `Invalid URDF: unsupported geometry <${shape?.nodeName ?? ""}> in link "${linkName}"`,
+      );
+  }
+}
+
+function parseJoint(joint: Element): UrdfJoint {
+  const name = requiredAttribute(joint, "name");
+  const type = requiredAttribute(joint, "type");
+  if (!JOINT_TYPES.has(type)) {
+    throw new Error(`Invalid URDF: joint "${name}" has unknown type "${type}"`);
+  }
+  const parent = childElements(joint, "parent")[0];
+  const child = childElements(joint, "child")[0];
+  if (!parent || !child) {
+    throw new Error(`Invalid URDF: joint "${name}" is missing <parent> or <child>`);
+  }
+
+  // The axis defaults to (1, 0, 0)
+  const axisElement = childElements(joint, "axis")[0];
+  const [ax, ay, az] = axisElement
+    ? parseNumbers(requiredAttribute(axisElement, "xyz"), 3)
+    : [1, 0, 0];
+  const axisLength = Math.hypot(ax, ay, az);
+  if (axisLength === 0) {
+    throw new Error(`Invalid URDF: joint "${name}" has a zero length axis`);
+  }
+
+  const limitElement = childElements(joint, "limit")[0];
+  const limit = limitElement
+    ? {
+        lower: parseNumber(limitElement.getAttribute("lower") ?? "0"),
+        upper: parseNumber(limitElement.getAttribute("upper") ?? "0"),
+      }
+    : undefined;
+
+  const mimicElement = childElements(joint, "mimic")[0];
+  const mimic = mimicElement
+    ? {
+        joint: requiredAttribute(mimicElement, "joint"),
+        multiplier: parseNumber(mimicElement.getAttribute("multiplier") ?? "1"),
+        offset: parseNumber(mimicElement.getAttribute("offset") ?? "0"),
+      }
+    : undefined;
+
+  return {
+    name,
+    type: type as UrdfJointType,
+    parent: requiredAttribute(parent, "link"),
+    child: requiredAttribute(child, "link"),
+    origin: parseOrigin(childElements(joint, "origin")[0]),
+    axis: { x: ax / axisLength, y: ay / axisLength, z: az / axisLength },
+    limit,
+    mimic,
+  };
+}
+
+// Parse an optional <origin xyz="..." rpy="..."/> element into a pose
+function parseOrigin(origin: Element | undefined): Pose {
+  const xyz = origin?.getAttribute("xyz");
+  const rpy = origin?.getAttribute("rpy");
+  const [x, y, z] = xyz != undefined ? parseNumbers(xyz, 3) : [0, 0, 0];
+  const [roll, pitch, yaw] = rpy != undefined ? parseNumbers(rpy, 3) : [0, 0, 0];
+  return { position: { x, y, z }, orientation: quaternionFromRpy(roll, pitch, yaw) };
+}
+
+function parseMaterialColor(material: Element): ColorRGBA | undefined {
+  const color = childElements(material, "color")[0];
+  if (!color) {
+    return undefined;
+  }
+  const [r, g, b, a] = parseNumbers(requiredAttribute(color, "rgba"), 4);
+  return { r, g, b, a };
+}
+
+// Direct children of `element` with the given tag name, ignoring nested elements
+function childElements(element: Element, tagName: string): Element[] {
+  return Array.from(element.children).filter((child) => child.nodeName === tagName);
+}
+
+function requiredAttribute(element: Element, name: string): string {
+  const value = element.getAttribute(name);
+  if (value == undefined) {
+    throw new Error(`Invalid URDF: <${element.nodeName}> is missing the "${name}" attribute`);
+  }
+  return value;
+}
+
+function parseNumber(value: string): number {
+  const number = Number(value);
+  if (value.trim() === "" || !isFinite(number)) {
+    throw new Error(`Invalid URDF: expected a number, got "${value}"`);
+  }
+  return number;
+}
+
+function parseNumbers(value: string, count: 3): [number, number, number];
+function parseNumbers(value: string, count: 4): [number, number, number, number];
+function parseNumbers(value: string, count: number): number[] {
+  const parts = value.trim().split(/\s+/);
+  if (parts.length !== count) {
+    throw new Error(`Invalid URDF: expected ${count} numbers, got "${value}"`);
+  }
+  return parts.map(parseNumber);
+}